@@ -1,10 +1,179 @@
 import * as THREE from "three";
 import EmitterInstance from "./EmitterInstance.js";
+import EmitterAllocator from "./EmitterAllocator.js";
+import EmitterClock, { type IEmitterClock } from "./EmitterClock.js";
+import EmitterManager from "./EmitterManager.js";
+import EmitterEmission, { type IEmitterEmissionOptions } from "./EmitterEmission.js";
+import EmitterEffect, { type IEmitterEffectOptions } from "./EmitterEffect.js";
+import { resolveEmitterShaderChunks } from "./EmitterShaderChunks.js";
+import { compileEmitterBehaviors, type IEmitterBehavior } from "./EmitterBehaviors.js";
+import { bakeEmitterCurves, emitterCurveDefine, evaluateEmitterCurve, type IEmitterCurve } from "./EmitterCurves.js";
+import {
+  validateEmitterAttributeItem,
+  toEmitterUniformItem,
+  type IEmitterAttributes,
+  type IEmitterUniforms,
+  type IEmitterBuiltinUniforms,
+  type IEmitterAttributeName,
+  type IEmitterAttribute,
+  type IEmitterAttributeValue,
+  type IEmitterAttributeValueOf,
+  type IEmitterInstanceUniformValue,
+} from "./EmitterAttributes.js";
+import EmitterError, { type IEmitterLogger } from "./EmitterError.js";
+import type EmitterRandom from "./EmitterRandom.js";
+import EmitterSimulation, { type IEmitterSimulationOptions } from "./EmitterSimulation.js";
+import EmitterSubEmitter, { type ISubEmitterOptions } from "./EmitterSubEmitter.js";
+import EmitterObjectLoader, { EMITTER_JSON_VERSION, type IEmitterJSON, type IEmitterInstanceJSON } from "./EmitterObjectLoader.js";
 
 /**
- * Options for the `Emitter`.
+ * Options for the bounding volume of an `Emitter`, see
+ * `Emitter.setBounds()`.
  */
-export interface IEmitterOptions {
+export interface IEmitterBoundsOptions {
+
+  /**
+   * The per particle attribute holding the base position of each
+   * particle in the emitter's local space, e.g. `"emitterPosition"`.
+   */
+  attribute: string;
+
+  /**
+   * The maximum distance particles move away from their base position
+   * in the shader. Default is `0`.
+   */
+  radius?: number;
+}
+
+/**
+ * Options for sorting the particles of an `Emitter` back to front, see
+ * `Emitter.setSort()`.
+ */
+export interface IEmitterSortOptions {
+
+  /**
+   * `"instance"` orders the EmitterInstances by their distance to the
+   * camera, `"particle"` additionally orders the particles within each
+   * EmitterInstance, or within the emitter if it has no instances.
+   * Particles with an emission model aren't sorted, moving them would
+   * break the emission's ring buffer.
+   */
+  mode: "instance" | "particle";
+
+  /**
+   * The per particle attribute holding the base position of each
+   * particle in the emitter's local space, e.g. `"emitterPosition"`.
+   */
+  attribute: string;
+
+  /**
+   * The camera to sort for. Defaults to the camera which rendered the
+   * emitter last.
+   */
+  camera?: THREE.Camera | null;
+
+  /**
+   * The minimum time between two sorts in seconds. Default is `0`, i.e.
+   * sorting on each update.
+   */
+  interval?: number;
+
+  /**
+   * The maximum amount of particles sorted per update in `"particle"`
+   * mode. EmitterInstances exceeding the budget are sorted on later
+   * updates. Default is `Infinity`.
+   */
+  budget?: number;
+}
+
+/**
+ * Options for the flipbook animation of an `Emitter`, see
+ * `Emitter.setFlipbook()`.
+ */
+export interface IEmitterFlipbookOptions {
+
+  /**
+   * The texture atlas containing the frames.
+   */
+  texture: THREE.Texture;
+
+  /**
+   * The amount of frame rows in the atlas.
+   */
+  rows: number;
+
+  /**
+   * The amount of frame columns in the atlas.
+   */
+  columns: number;
+
+  /**
+   * The amount of frames, e.g. if the last row isn't full.
+   * Default is `rows * columns`.
+   */
+  frames?: number;
+
+  /**
+   * The playback speed in frames per second. Default is `24`.
+   */
+  fps?: number;
+
+  /**
+   * Start each particle at a random frame. Default is `false`.
+   */
+  randomStart?: boolean;
+
+  /**
+   * The random number generator picking the start frames, e.g. to get
+   * identical effects from the same seed. Defaults to `Math.random()`.
+   */
+  random?: EmitterRandom | null;
+
+  /**
+   * Blend between the current and the next frame. Default is `false`.
+   */
+  blend?: boolean;
+
+  /**
+   * Loop the animation instead of holding the last frame.
+   * Default is `true`.
+   */
+  loop?: boolean;
+}
+
+/**
+ * The events dispatched by an `Emitter`, in addition to the events of
+ * `THREE.Object3D`.
+ * - `instanceadded`: An EmitterInstance was registered.
+ * - `instanceremoved`: An EmitterInstance was disposed.
+ * - `capacityexceeded`: An EmitterInstance didn't fit into the free
+ *   particle slots. Dispatched before the emitter grows, if `autoGrow`
+ *   is set, or clamps the EmitterInstance.
+ * - `beforeupdate` and `afterupdate`: Dispatched around each update
+ *   with the unscaled time passed in seconds.
+ * - `disposed`: The emitter was disposed.
+ * 
+ * ```
+ * emitter.addEventListener("instanceadded", ({ instance }) => console.log(instance.name));
+ * ```
+ */
+export interface IEmitterEventMap<TAttributes extends IEmitterAttributes = IEmitterAttributes> extends THREE.Object3DEventMap {
+  instanceadded: { instance: EmitterInstance<TAttributes> };
+  instanceremoved: { instance: EmitterInstance<TAttributes> };
+  capacityexceeded: { instance: EmitterInstance<TAttributes>; requested: number; available: number };
+  beforeupdate: { delta: number };
+  afterupdate: { delta: number };
+  disposed: object;
+}
+
+/**
+ * Options for the `Emitter`. The types of `attributes` and `uniforms`
+ * are inferred as the Emitter's `TAttributes` and `TUniforms`.
+ */
+export interface IEmitterOptions<
+  TAttributes extends IEmitterAttributes = IEmitterAttributes,
+  TUniforms extends IEmitterUniforms = IEmitterUniforms,
+> {
 
   /**
    * The GLSL vertex shader used to render particles.
@@ -70,6 +239,22 @@ export interface IEmitterOptions {
    */
   materialParameters?: THREE.ShaderMaterialParameters;
 
+  /**
+   * Render particles with a `THREE.RawShaderMaterial`. If `false`, a
+   * `THREE.ShaderMaterial` is used instead, so particles receive scene
+   * fog, clipping planes, the logarithmic depth buffer and tone mapping,
+   * see `setRaw()`. Default is `true`.
+   * 
+   * ```
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   raw: false,
+   *   behaviors: [{ type: "velocity", value: [0, 1, 0] }, { type: "billboard" }],
+   * });
+   * ```
+   */
+  raw?: boolean;
+
   /**
    * The uniforms used in the shader.
    * Stays the same across instances. Can be changed during runtime.
@@ -82,7 +267,22 @@ export interface IEmitterOptions {
    * });
    * ```
    */
-  uniforms?: Record<string, THREE.IUniform>;
+  uniforms?: TUniforms;
+
+  /**
+   * Uniform-like values which can differ per EmitterInstance, keyed by
+   * name, see `setInstanceUniforms()`. The values are the defaults.
+   * 
+   * ```
+   * const emitter = new Emitter({
+   *   instanceUniforms: {
+   *     tint: new THREE.Color(1, 1, 1),
+   *     intensity: 1
+   *   }
+   * });
+   * ```
+   */
+  instanceUniforms?: Record<string, IEmitterInstanceUniformValue>;
 
   /**
    * The attributes used in the shader.
@@ -100,8 +300,11 @@ export interface IEmitterOptions {
    *   }
    * });
    * ```
+   * 
+   * Use `createEmitterAttribute()` to let `fillAttribute()` check the
+   * arity of values at compile time.
    */
-  attributes?: Record<string, THREE.InstancedBufferAttribute | THREE.BufferAttribute>;
+  attributes?: TAttributes;
 
   /**
    * The maximum number of particles.
@@ -134,317 +337,2070 @@ export interface IEmitterOptions {
    * ```
    */
   autoUpdate?: boolean;
-}
 
-/**
- * A particle emitter.
- * Provides an easy to use interface for THREE's InstancedBufferGeometry
- * and RawShaderMaterial to spawn and manage particle emitters. Can emit
- * particles on its own or can be used to create EmitterInstances with
- * distinct shader attributes/uniforms while running on the same shader
- * program.
- * 
- * ```
- * const emitter = new Emitter({
- *   frag: myFragmentShader,
- *   vert: myVertShader,
- *   attributes: myShaderAttributes,
- *   uniforms: myShaderUniforms,
- * })
- * 
- * myScene.add(emitter);
- * 
- * const emitterInstance = new EmitterInstance(emitter, 100);
- * emitterInstance.fillAttribute("emitterPosition", [myX, myY, myZ]);
- * ```
- */
-export default class Emitter extends THREE.Mesh<THREE.InstancedBufferGeometry, THREE.RawShaderMaterial> {
   /**
-   * Indicates whether the emitter auto-updates.
+   * The manager updating the emitter if `autoUpdate` is set.
+   * Default is `EmitterManager.default`.
+   * 
+   * ```
+   * const manager = new EmitterManager({ autoUpdate: false });
+   * const emitter = new Emitter({
+   *   manager
+   * });
+   * 
+   * renderer.setAnimationLoop(() => {
+   *   manager.update();
+   *   renderer.render(scene, camera);
+   * });
+   * ```
    */
-  public autoUpdate: boolean = true;
+  manager?: EmitterManager;
 
   /**
-   * The maximum number of particles.
+   * Whether the emitter should grow its capacity when EmitterInstances
+   * don't fit into the free particle slots anymore. The capacity will
+   * at least be doubled on each growth, see `resize()`.
+   * Default is `false`.
+   * 
+   * ```
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   autoGrow: true
+   * });
+   * 
+   * const instance = new EmitterInstance(emitter, 1500);
+   * console.log(emitter.maxParticles); // 2000
+   * ```
    */
-  public maxParticles: number;
+  autoGrow?: boolean;
 
   /**
-   * A set of all EmitterInstances running on this Emitter.
-   * Will be auto-updated when EmitterInstances are created/disposed.
+   * The clock used to advance the `time` uniform. Default is an
+   * `EmitterClock` based on the system time. Auto-updates are scheduled
+   * by the emitter's `manager`.
+   * 
+   * ```
+   * const clock = new ManualEmitterClock();
+   * const emitter = new Emitter({
+   *   clock,
+   *   manager: new EmitterManager({ clock })
+   * });
+   * 
+   * clock.tick(1000);
+   * console.log(emitter.time); // 1
+   * ```
    */
-  public knownInstances: Set<EmitterInstance> = new Set();
+  clock?: IEmitterClock;
 
   /**
-   * A timestamp used for the default `time` uniform.
+   * The speed at which the `time` uniform advances.
+   * Default is `1`.
+   * 
+   * ```
+   * const slowMotionEmitter = new Emitter({
+   *   timeScale: 0.25
+   * });
+   * ```
    */
-  protected timestamp: number = 0;
+  timeScale?: number;
 
   /**
-   * Constructs a new emitter.
+   * The emission model of the emitter. Creates the `birthTime` and
+   * `lifetime` attributes and emits particles on each update, see
+   * `EmitterEmission`. EmitterInstances inherit the emission model.
+   * Without EmitterInstances, the emitter emits into all its particle
+   * slots unless `particleAmount` was set.
    * 
-   * @param {IEmitterOptions} options - The options.
+   * ```
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   emission: {
+   *     rate: 100,
+   *     lifetime: [1, 2],
+   *     bursts: [{ time: 0, amount: 200 }]
+   *   }
+   * });
+   * ```
    */
-  constructor(options: IEmitterOptions = { maxParticles: 1000 }) {
-    super();
-
-    this.geometry = new THREE.InstancedBufferGeometry();
-    this.material = new THREE.RawShaderMaterial();
-    this.material.uniforms.time = { value: 0 };
-    this.maxParticles = options.maxParticles;
-    this.geometry.instanceCount = 0;
-
-    if (options.attributes)
-      this.setAttributes(options.attributes);
-
-    if (options.uniforms)
-      this.setUniforms(options.uniforms);
-
-    if (options.materialParameters)
-      this.setMaterialParameters(options.materialParameters);
-
-    if (options.vert)
-      this.setVertexShader(options.vert);
-
-    if (options.frag)
-      this.setFragmentShader(options.frag);
-
-    if (options.geometry)
-      this.setAttributesFromGeometry(options.geometry);
-
-    this.setAutoUpdate(options.autoUpdate ?? true);
-  }
+  emission?: IEmitterEmissionOptions;
 
   /**
-   * Set the attributes used in the shader.
-   * InstancedBufferAttributes are per particle instance.
-   * BufferAttributes stay the same across instances.
-   * Can be changed during runtime.
+   * Declarative behaviors compiled into a generated vertex and fragment
+   * shader. Required uniforms and attributes are declared and created
+   * automatically. `vert` and `frag` take precedence over the generated
+   * shaders.
    * 
    * ```
-   * const instanceCount = 1000;
-   * const emitter = new Emitter()
-   *   .setAttributes({
-   *     randomPerInstance: new THREE.InstancedBufferAttribute(new Float32Array(instanceCount), 1),
-   *     randomPerEmitter: new THREE.BufferAttribute(new Float32Array(1))
-   *   });
-   * ```
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   emission: { rate: 100, lifetime: 2 },
+   *   behaviors: [
+   *     { type: "velocity", attribute: "initialVelocity" },
+   *     { type: "gravity", value: [0, -9.81, 0] },
+   *     { type: "drag", value: 0.5 },
+   *     { type: "colorOverLife", from: [1, 1, 0, 1], to: [1, 0, 0, 0] },
+   *     { type: "billboard" },
+   *   ]
+   * });
    * 
-   * @param {Record<string, THREE.InstancedBufferAttribute | THREE.BufferAttribute>} attributes -
-   *   The attributes used in the shader.
-   * @returns {this}
+   * emitter.fillAttribute("initialVelocity", () => [Math.random() - 0.5, 5, Math.random() - 0.5]);
+   * ```
    */
-  public setAttributes(attributes: Record<string, THREE.InstancedBufferAttribute | THREE.BufferAttribute>): this {
-    for (const [name, attr] of Object.entries(attributes))
-      this.geometry.setAttribute(name, attr);
-    return this;
-  }
-
+  behaviors?: IEmitterBehavior[];
 
   /**
-   * Set a THREE.BufferGeometry used for sahder built-ins.
-   * See https://threejs.org/docs/#api/en/renderers/webgl/WebGLProgram
+   * Curves and gradients baked into a texture atlas, see `setCurves()`.
    * 
    * ```
-   * const emitter = new Emitter()
-   *   .setAttributesFromGeometry(new THREE.PlaneGeometry(1, 1));
+   * const emitter = new Emitter({
+   *   curves: {
+   *     fire: [[0, [1, 1, 0.5, 1]], [0.5, [1, 0.3, 0, 1]], [1, [0.2, 0.2, 0.2, 0]]],
+   *     size: [[0, 0], [0.1, 1], [1, 0.5]],
+   *   },
+   *   behaviors: [
+   *     { type: "colorCurve", curve: "fire" },
+   *     { type: "sizeCurve", curve: "size" },
+   *   ]
+   * });
    * ```
-   * 
-   * Will provide corresponding the corresponding built-ins for each
-   * particle instance:
+   */
+  curves?: Record<string, IEmitterCurve>;
+
+  /**
+   * Compute the bounding volume used for frustum culling from a
+   * position attribute, see `setBounds()`.
    * 
    * ```
-   * attribute vec3 position;
-   * attribute vec3 normal;
-   * attribute vec2 uv;
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   bounds: { attribute: "emitterPosition", radius: 5 }
+   * });
    * ```
-   * 
-   * These built-ins can also be provided via `attributes`.
-   * 
-   * @param {THREE.BufferGeometry} geometry - The geometry used for
-   *   shader built-ins.
-   * @returns {this}
    */
-  public setAttributesFromGeometry(geometry: THREE.BufferGeometry): this {
-    for (const [name, attr] of Object.entries(geometry.attributes))
-      this.geometry.setAttribute(name, attr);
-    this.geometry.index = geometry.index;
-    geometry.dispose();
-    return this;
-  }
+  bounds?: IEmitterBoundsOptions;
 
   /**
-   * Set additional parameters used for the shader material.
+   * Sort the particles back to front for transparent materials, see
+   * `setSort()`.
    * 
    * ```
-   * const emitter = new Emitter()
-   *   .seetMaterialParameters({ transparent: true });
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   materialParameters: { transparent: true },
+   *   sort: { mode: "particle", attribute: "emitterPosition" }
+   * });
    * ```
-   * 
-   * @param {THREE.ShaderMaterialParameters} materialParameters -
-   *   Additional parameters used for the shader material.
-   * @returns {this}
    */
-  public setMaterialParameters(materialParameters: THREE.ShaderMaterialParameters): this {
-    this.material.setValues(materialParameters);
-    return this;
-  }
+  sort?: IEmitterSortOptions;
 
   /**
-   * Set the GLSL fragment shader used to render particles.
+   * Simulate the particle motion on the CPU, see `setSimulation()`.
    * 
    * ```
-   * const emitter = new Emitter()
-   *   .setFragmentShader(`
-   *     void main() {
-   *       gl_FragColor = vec4(1.0, 1.0, 1.0, 1.0);
-   *     }
-   *   `);
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   simulation: {
+   *     forces: [{ type: "gravity", value: [0, -9.81, 0] }]
+   *   }
+   * });
    * ```
+   */
+  simulation?: IEmitterSimulationOptions;
+
+  /**
+   * Spawn effects on other emitters when particles die or reach an age,
+   * see `addSubEmitter()`.
    * 
-   * @param {string} shader - The GLSL fragment shader used to render
-   *   particles.
-   * @returns {this}
+   * ```
+   * const rockets = new Emitter({
+   *   maxParticles: 100,
+   *   emission: { rate: 2, lifetime: 1.5 },
+   *   subEmitters: [{ emitter: sparks, amount: 100, duration: 1 }]
+   * });
+   * ```
    */
-  public setFragmentShader(shader: string): this {
-    this.material.fragmentShader = shader;
-    return this;
-  }
+  subEmitters?: ISubEmitterOptions[];
 
   /**
-   * set the GLSL vertex shader used to render particles.
+   * Animate particles with a sprite sheet, see `setFlipbook()`.
+   * 
+   * ```
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   geometry: new THREE.PlaneGeometry(1, 1),
+   *   flipbook: { texture: smokeTexture, rows: 8, columns: 8, fps: 30, blend: true }
+   * });
+   * ```
+   */
+  flipbook?: IEmitterFlipbookOptions;
+
+  /**
+   * Throw an `EmitterError` for problems that are silently handled
+   * otherwise, e.g. instances overflowing `maxParticles`, instances
+   * disposed twice or shader compile errors.
+   * Default is `false`.
+   * 
+   * ```
+   * const emitter = new Emitter({
+   *   maxParticles: 100,
+   *   strict: true
+   * });
+   * 
+   * new EmitterInstance(emitter, 200); // Throws INSTANCE_OVERFLOW
+   * ```
+   */
+  strict?: boolean;
+
+  /**
+   * Pass the problems `strict` would throw for to `logger` instead.
+   * Default is `false`.
+   */
+  debug?: boolean;
+
+  /**
+   * The logger receiving warnings in `debug` mode.
+   * Default logs to the console.
+   */
+  logger?: IEmitterLogger;
+}
+
+/**
+ * The default logger of emitters in `debug` mode.
+ */
+const consoleLogger: IEmitterLogger = {
+  warn: (error) => {
+    console.warn(`${error.name} [${error.code}]: ${error.message}`);
+  },
+};
+
+/**
+ * The diagnostics THREE attaches to programs that failed to compile.
+ */
+interface IProgramDiagnostics {
+  diagnostics?: {
+    runnable: boolean;
+    programLog: string;
+    vertexShader: { log: string };
+    fragmentShader: { log: string };
+  };
+}
+
+/**
+ * The JSON written by `Emitter.toJSON()`.
+ */
+export interface IEmitterObjectJSON extends THREE.MeshJSON {
+  object: THREE.MeshJSONObject & { emitter: IEmitterJSON };
+}
+
+/**
+ * The amount of keyframes function curves are sampled into when
+ * serialized.
+ */
+const CURVE_JSON_SAMPLES = 64;
+
+/**
+ * Wrap the `main()` function of a vertex shader to move the vertices of
+ * released particle slots between EmitterInstances out of the clip
+ * volume, so any shader only draws the live ranges.
+ *
+ * @param {THREE.WebGLProgramParametersWithUniforms} shader - The shader.
+ * @returns {string}
+ */
+function cullReleasedSlots(shader: THREE.WebGLProgramParametersWithUniforms): string {
+  const main = /\bvoid\s+main\s*\(\s*(?:void\s*)?\)/;
+  if (!main.test(shader.vertexShader))
+    return shader.vertexShader;
+
+  // THREE only defines `attribute` as `in` for non-raw materials
+  const keyword = shader.isRawShaderMaterial && shader.glslVersion === THREE.GLSL3 ? "in" : "attribute";
+  const declared = /\b(?:attribute|in)\s+float\s+instanceActive\s*;/.test(shader.vertexShader);
+  return shader.vertexShader.replace(main, `
+    #ifdef EMITTER_INSTANCES
+    ${declared ? "" : `${keyword} float instanceActive;`}
+    #endif
+
+    void emitterMain();
+
+    void main() {
+      #ifdef EMITTER_INSTANCES
+      if (instanceActive < 0.5) {
+        gl_Position = vec4(0.0, 0.0, 2.0, 1.0);
+        return;
+      }
+      #endif
+      emitterMain();
+    }
+
+    void emitterMain()
+  `);
+}
+
+/**
+ * Resolve the `#include <emitter_*>` chunks of the emitter's shaders
+ * and cull released particle slots.
+ *
+ * @param {THREE.WebGLProgramParametersWithUniforms} shader - The shader.
+ * @returns {void}
+ */
+function onBeforeCompile(shader: THREE.WebGLProgramParametersWithUniforms): void {
+  shader.vertexShader = resolveEmitterShaderChunks(shader.vertexShader);
+  shader.vertexShader = cullReleasedSlots(shader);
+  shader.fragmentShader = resolveEmitterShaderChunks(shader.fragmentShader);
+}
+
+/**
+ * Check whether an object is an emitter.
+ *
+ * @param {THREE.Object3D} object - The object.
+ * @returns {boolean}
+ */
+function isEmitter(object: THREE.Object3D): object is Emitter {
+  return object instanceof Emitter;
+}
+
+/**
+ * A particle emitter.
+ * Provides an easy to use interface for THREE's InstancedBufferGeometry
+ * and RawShaderMaterial or ShaderMaterial to spawn and manage particle
+ * emitters. Can emit particles on its own or can be used to create
+ * EmitterInstances with distinct shader attributes/uniforms while
+ * running on the same shader program.
+ * 
+ * ```
+ * const emitter = new Emitter({
+ *   frag: myFragmentShader,
+ *   vert: myVertShader,
+ *   attributes: myShaderAttributes,
+ *   uniforms: myShaderUniforms,
+ * })
+ * 
+ * myScene.add(emitter);
+ * 
+ * const emitterInstance = new EmitterInstance(emitter, 100);
+ * emitterInstance.fillAttribute("emitterPosition", [myX, myY, myZ]);
+ * ```
+ * 
+ * `TAttributes` and `TUniforms` are inferred from the options and key
+ * `fillAttribute()`, `uniforms` and `EmitterInstance.attributes`.
+ * 
+ * Emitters dispatch lifecycle events, see `IEmitterEventMap`.
+ */
+export default class Emitter<
+  TAttributes extends IEmitterAttributes = IEmitterAttributes,
+  TUniforms extends IEmitterUniforms = IEmitterUniforms,
+> extends THREE.Mesh<THREE.InstancedBufferGeometry, THREE.ShaderMaterial, IEmitterEventMap<TAttributes>> {
+  /**
+   * The type of the object, used by `EmitterObjectLoader`.
+   */
+  public override readonly type: string = "Emitter";
+
+  /**
+   * Indicates whether the emitter auto-updates.
+   */
+  public autoUpdate: boolean = true;
+
+  /**
+   * Indicates whether the emitter grows its capacity automatically.
+   */
+  public autoGrow: boolean = false;
+
+  /**
+   * The manager updating the emitter if `autoUpdate` is set.
+   */
+  public manager: EmitterManager = EmitterManager.default;
+
+  /**
+   * The clock used to advance the `time` uniform.
+   */
+  public clock: IEmitterClock = new EmitterClock();
+
+  /**
+   * The speed at which the `time` uniform advances.
+   */
+  public timeScale: number = 1;
+
+  /**
+   * Indicates whether the emitter is paused.
+   */
+  public paused: boolean = false;
+
+  /**
+   * The emission model of the emitter. Only used while the emitter has
+   * no EmitterInstances, otherwise each instance emits on its own.
+   */
+  public emission: EmitterEmission | null = null;
+
+  /**
+   * A set of all EmitterInstances running on this Emitter.
+   * Will be auto-updated when EmitterInstances are created/disposed.
+   */
+  public knownInstances: Set<EmitterInstance<TAttributes>> = new Set();
+
+  /**
+   * The behaviors compiled into the shaders, see `setBehaviors()`.
+   */
+  public behaviors: IEmitterBehavior[] = [];
+
+  /**
+   * The curves baked into `curveAtlas`, see `setCurves()`.
+   */
+  public curves: Record<string, IEmitterCurve> = {};
+
+  /**
+   * The texture atlas holding the baked curves.
+   */
+  public curveAtlas: THREE.DataTexture | null = null;
+
+  /**
+   * The declared per-instance uniforms and their default values, see
+   * `setInstanceUniforms()`.
+   */
+  public instanceUniforms: Record<string, number[]> = {};
+
+  /**
+   * The options of the bounding volume computation, see `setBounds()`.
+   */
+  public bounds: Required<IEmitterBoundsOptions> | null = null;
+
+  /**
+   * Indicates whether the bounding volume is re-computed on the next
+   * update, e.g. after EmitterInstances changed.
+   */
+  public boundsNeedUpdate: boolean = true;
+
+  /**
+   * The options of the back to front sorting, see `setSort()`.
+   */
+  public sort: Required<IEmitterSortOptions> | null = null;
+
+  /**
+   * The CPU simulation of the particle motion, see `setSimulation()`.
+   */
+  public simulation: EmitterSimulation | null = null;
+
+  /**
+   * The sub-emitters spawning effects for the emitter's particles, see
+   * `addSubEmitter()`.
+   */
+  public subEmitters: EmitterSubEmitter[] = [];
+
+  /**
+   * The options of the flipbook animation, see `setFlipbook()`.
+   */
+  public flipbook: Required<IEmitterFlipbookOptions> | null = null;
+
+  /**
+   * The camera which rendered the emitter last.
+   */
+  protected renderCamera: THREE.Camera | null = null;
+
+  /**
+   * The attributes flagged via `needsUpdate` since the last render, they
+   * are uploaded entirely.
+   */
+  protected fullUploads: Set<THREE.BufferAttribute> = new Set();
+
+  /**
+   * The time since the last sort in seconds.
+   */
+  protected sortElapsed: number = 0;
+
+  /**
+   * The EmitterInstance to continue sorting particles with if the last
+   * sort exceeded the budget.
+   */
+  protected sortCursor: number = 0;
+
+  /**
+   * Indicates whether problems throw an `EmitterError`.
+   */
+  public strict: boolean = false;
+
+  /**
+   * Indicates whether problems are passed to `logger`.
+   */
+  public debug: boolean = false;
+
+  /**
+   * The logger receiving warnings in `debug` mode.
+   */
+  public logger: IEmitterLogger = consoleLogger;
+
+  /**
+   * The last program checked for shader errors.
+   */
+  protected checkedProgram: unknown = null;
+
+  /**
+   * A set of all running effects created by `spawn()`.
+   */
+  public effects: Set<EmitterEffect<TAttributes>> = new Set();
+
+  /**
+   * Released EmitterInstances re-used by `spawn()`.
+   */
+  protected instancePool: EmitterInstance<TAttributes>[] = [];
+
+  /**
+   * The allocator handing out particle slot ranges to EmitterInstances.
+   * Used internally.
+   */
+  public allocator: EmitterAllocator;
+
+  /**
+   * The clock time of the last update in milliseconds, used to advance
+   * the `time` uniform. Starts at the time the clock was set, `null`
+   * before.
+   */
+  protected timestamp: number | null = null;
+
+  /**
+   * Constructs a new emitter.
+   * 
+   * @param {IEmitterOptions} options - The options.
+   */
+  constructor(options: IEmitterOptions<TAttributes, TUniforms> = { maxParticles: 1000 }) {
+    super();
+
+    this.geometry = new THREE.InstancedBufferGeometry();
+    this.material = new THREE.RawShaderMaterial();
+    this.material.uniforms.time = { value: 0 };
+    this.material.onBeforeCompile = onBeforeCompile;
+    this.allocator = new EmitterAllocator(options.maxParticles);
+    this.geometry.instanceCount = 0;
+    this.onBeforeRender = (renderer, scene, camera): void => {
+      this.renderCamera = camera;
+      // The attributes were uploaded before rendering
+      this.fullUploads.clear();
+    };
+    this.onAfterRender = (renderer): void => {
+      this.checkProgram(renderer);
+    };
+
+    if (options.logger)
+      this.setLogger(options.logger);
+
+    this.setStrict(options.strict ?? false);
+    this.setDebug(options.debug ?? false);
+
+    if (options.raw === false)
+      this.setRaw(false);
+
+    if (options.attributes)
+      this.setAttributes(options.attributes);
+
+    if (options.uniforms)
+      this.setUniforms(options.uniforms);
+
+    if (options.instanceUniforms)
+      this.setInstanceUniforms(options.instanceUniforms);
+
+    if (options.materialParameters)
+      this.setMaterialParameters(options.materialParameters);
+
+    if (options.curves)
+      this.setCurves(options.curves);
+
+    if (options.behaviors)
+      this.setBehaviors(options.behaviors);
+
+    if (options.vert)
+      this.setVertexShader(options.vert);
+
+    if (options.frag)
+      this.setFragmentShader(options.frag);
+
+    if (options.geometry)
+      this.setAttributesFromGeometry(options.geometry);
+
+    if (options.manager)
+      this.setManager(options.manager);
+
+    this.setClock(options.clock ?? this.clock);
+
+    if (options.timeScale !== undefined)
+      this.setTimeScale(options.timeScale);
+
+    if (options.emission)
+      this.setEmission(options.emission);
+
+    if (options.bounds)
+      this.setBounds(options.bounds);
+
+    if (options.sort)
+      this.setSort(options.sort);
+
+    if (options.simulation)
+      this.setSimulation(options.simulation);
+
+    for (const subEmitter of options.subEmitters ?? [])
+      this.addSubEmitter(subEmitter);
+
+    if (options.flipbook)
+      this.setFlipbook(options.flipbook);
+
+    this.setAutoUpdate(options.autoUpdate ?? true);
+    this.setAutoGrow(options.autoGrow ?? false);
+  }
+
+  /**
+   * Set the attributes used in the shader.
+   * InstancedBufferAttributes are per particle instance.
+   * BufferAttributes stay the same across instances.
+   * Can be changed during runtime.
+   * 
+   * ```
+   * const instanceCount = 1000;
+   * const emitter = new Emitter()
+   *   .setAttributes({
+   *     randomPerInstance: new THREE.InstancedBufferAttribute(new Float32Array(instanceCount), 1),
+   *     randomPerEmitter: new THREE.BufferAttribute(new Float32Array(1))
+   *   });
+   * ```
+   * 
+   * @param {Record<string, THREE.InstancedBufferAttribute | THREE.BufferAttribute>} attributes -
+   *   The attributes used in the shader.
+   * @returns {this}
+   */
+  public setAttributes(attributes: Record<string, THREE.InstancedBufferAttribute | THREE.BufferAttribute>): this {
+    for (const [name, attr] of Object.entries(attributes)) {
+      if (attr instanceof THREE.InstancedBufferAttribute && attr.count < this.maxParticles) {
+        this.report(new EmitterError(
+          "ATTRIBUTE_COUNT",
+          `The instanced attribute has ${String(attr.count)} items but the emitter has ${String(this.maxParticles)} particles, so it's treated as shared.`,
+          { emitter: this, attribute: name },
+        ));
+      }
+      this.geometry.setAttribute(name, attr);
+    }
+    return this;
+  }
+
+
+  /**
+   * Set a THREE.BufferGeometry used for sahder built-ins.
+   * See https://threejs.org/docs/#api/en/renderers/webgl/WebGLProgram
+   * 
+   * ```
+   * const emitter = new Emitter()
+   *   .setAttributesFromGeometry(new THREE.PlaneGeometry(1, 1));
+   * ```
+   * 
+   * Will provide corresponding the corresponding built-ins for each
+   * particle instance:
+   * 
+   * ```
+   * attribute vec3 position;
+   * attribute vec3 normal;
+   * attribute vec2 uv;
+   * ```
+   * 
+   * These built-ins can also be provided via `attributes`.
+   * 
+   * @param {THREE.BufferGeometry} geometry - The geometry used for
+   *   shader built-ins.
+   * @returns {this}
+   */
+  public setAttributesFromGeometry(geometry: THREE.BufferGeometry): this {
+    for (const [name, attr] of Object.entries(geometry.attributes))
+      this.geometry.setAttribute(name, attr);
+    this.geometry.index = geometry.index;
+    geometry.dispose();
+    return this;
+  }
+
+  /**
+   * Set additional parameters used for the shader material.
+   * 
+   * ```
+   * const emitter = new Emitter()
+   *   .seetMaterialParameters({ transparent: true });
+   * ```
+   * 
+   * @param {THREE.ShaderMaterialParameters} materialParameters -
+   *   Additional parameters used for the shader material.
+   * @returns {this}
+   */
+  public setMaterialParameters(materialParameters: THREE.ShaderMaterialParameters): this {
+    this.material.setValues(materialParameters);
+    return this;
+  }
+
+  /**
+   * Render particles with a `THREE.RawShaderMaterial` or a
+   * `THREE.ShaderMaterial`. The ShaderMaterial has `fog` and `clipping`
+   * enabled, so particles receive scene fog, clipping planes, the
+   * logarithmic depth buffer and tone mapping. THREE declares the
+   * built-in uniforms and attributes, e.g. `projectionMatrix` and
+   * `position`, so custom shaders must not declare them again. Use the
+   * `emitter_scene_*` chunks to apply the renderer features.
+   * 
+   * The material is replaced, uniforms, defines, shaders and parameters
+   * are carried over. Shaders generated from behaviors are regenerated.
+   * 
+   * ```
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   vert: `
+   *     #include <emitter_scene_pars_vertex>
+   * 
+   *     void main() {
+   *       vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+   *       gl_Position = projectionMatrix * mvPosition;
+   *       #include <emitter_scene_vertex>
+   *     }
+   *   `,
+   *   frag: `
+   *     #include <emitter_scene_pars_fragment>
+   * 
+   *     void main() {
+   *       gl_FragColor = vec4(1.0);
+   *       #include <emitter_scene_fragment>
+   *     }
+   *   `
+   * }).setRaw(false);
+   * ```
+   * 
+   * @param {boolean} raw - Use a `THREE.RawShaderMaterial`.
+   * @returns {this}
+   */
+  public setRaw(raw: boolean): this {
+    const previous = this.material;
+    if (raw === previous instanceof THREE.RawShaderMaterial)
+      return this;
+
+    const generated = this.behaviors.length > 0 &&
+      previous.vertexShader === compileEmitterBehaviors(this.behaviors, !raw).vertexShader;
+    const program = generated ? compileEmitterBehaviors(this.behaviors, raw) : null;
+
+    const material = raw ? new THREE.RawShaderMaterial() : new THREE.ShaderMaterial();
+    THREE.Material.prototype.copy.call(material, previous);
+    // Share the uniforms instead of cloning them, e.g. with behaviors
+    material.uniforms = previous.uniforms;
+    material.uniformsGroups = previous.uniformsGroups;
+    material.defines = previous.defines;
+    material.extensions = { ...previous.extensions };
+    material.glslVersion = previous.glslVersion;
+    material.wireframe = previous.wireframe;
+    material.wireframeLinewidth = previous.wireframeLinewidth;
+    material.lights = previous.lights;
+    material.vertexShader = program?.vertexShader ?? previous.vertexShader;
+    material.fragmentShader = program?.fragmentShader ?? previous.fragmentShader;
+    material.fog = !raw;
+    material.clipping = !raw;
+    material.onBeforeCompile = onBeforeCompile;
+
+    if (!raw) {
+      for (const [name, uniform] of Object.entries(THREE.UniformsUtils.clone(THREE.UniformsLib.fog))) {
+        if (!(name in material.uniforms))
+          material.uniforms[name] = uniform;
+      }
+    }
+
+    previous.dispose();
+    this.material = material;
+    return this;
+  }
+
+  /**
+   * Set the GLSL fragment shader used to render particles.
+   * 
+   * ```
+   * const emitter = new Emitter()
+   *   .setFragmentShader(`
+   *     void main() {
+   *       gl_FragColor = vec4(1.0, 1.0, 1.0, 1.0);
+   *     }
+   *   `);
+   * ```
+   * 
+   * @param {string} shader - The GLSL fragment shader used to render
+   *   particles.
+   * @returns {this}
+   */
+  public setFragmentShader(shader: string): this {
+    this.material.fragmentShader = shader;
+    return this;
+  }
+
+  /**
+   * set the GLSL vertex shader used to render particles.
    * 
    * ```
    * const emitter = new Emitter()
    *   .setVertexShader(`
    *     void main() {
-   *       gl_Position = vec4(0.0, 0.0, 0.0, 1.0);
+   *       gl_Position = vec4(0.0, 0.0, 0.0, 1.0);
+   *     }
+   *   `);
+   * ```
+   * 
+   * @param {string} shader - The GLSL vertex shader used to render
+   *   particles.
+   * @returns {this}
+   */
+  public setVertexShader(shader: string): this {
+    this.material.vertexShader = shader;
+    return this;
+  }
+
+  /**
+   * Set the uniforms used in the shader.
+   * Stays the same across instances. Can be changed during runtime.
+   * 
+   * ```
+   * const emitter = new Emitter()
+   *   .setUniforms({
+   *     random: { value: Math.random() }
+   *   });
+   * ```
+   * 
+   * @param {Record<string, THREE.IUniform>} uniforms - The uniforms used
+   *   in the shader.
+   * @returns {this}
+   */
+  public setUniforms(uniforms: Record<string, THREE.IUniform>): this {
+    for (const [name, attr] of Object.entries(uniforms)) {
+      if (!(name in this.material.uniforms))
+        this.material.uniforms[name] = { value: attr.value as unknown };
+      else
+        this.material.uniforms[name].value = attr.value as unknown;
+    }
+    return this;
+  }
+
+  /**
+   * Declare uniform-like values which can differ per EmitterInstance,
+   * see `EmitterInstance.setUniform()`. Each value is backed by a per
+   * particle attribute of the same name, which is created, sized and
+   * kept in sync by the emitter, e.g. when EmitterInstances are added,
+   * removed or moved by `compact()`. Read them in the shader as
+   * attributes. The values are the defaults for EmitterInstances which
+   * don't set their own value and for particles emitted without
+   * EmitterInstances.
+   * 
+   * ```
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   vert: `
+   *     attribute vec3 tint;
+   *     // ...
+   *   `
+   * }).setInstanceUniforms({ tint: new THREE.Color(1, 1, 1) });
+   * 
+   * const instance = new EmitterInstance(emitter, 100)
+   *   .setUniform("tint", new THREE.Color(1, 0, 0));
+   * ```
+   * 
+   * @param {Record<string, IEmitterInstanceUniformValue>} uniforms - The
+   *   default values, keyed by name.
+   * @returns {this}
+   */
+  public setInstanceUniforms(uniforms: Record<string, IEmitterInstanceUniformValue>): this {
+    for (const [name, value] of Object.entries(uniforms)) {
+      const item = toEmitterUniformItem(value);
+      const attr = this.addParticleAttribute(name, item.length);
+      if (!validateEmitterAttributeItem(item, attr.itemSize, this, { emitter: this, attribute: name }))
+        continue;
+      this.instanceUniforms[name] = item;
+      this.writeAttribute(name, item);
+    }
+    for (const instance of this.knownInstances)
+      instance.applyUniforms();
+    return this;
+  }
+
+  /**
+   * Set declarative behaviors and replace the vertex and fragment
+   * shader with shaders generated from them. Required uniforms and
+   * attributes are declared and created automatically, see
+   * `IEmitterBehavior` for the available behaviors.
+   * 
+   * ```
+   * const emitter = new Emitter()
+   *   .setBehaviors([
+   *     { type: "velocity", value: [0, 5, 0] },
+   *     { type: "noise", strength: 0.5 },
+   *     { type: "sizeOverLife", from: 1, to: 0 },
+   *     { type: "billboard" },
+   *   ]);
+   * ```
+   * 
+   * @param {IEmitterBehavior[]} behaviors - The behaviors.
+   * @returns {this}
+   */
+  public setBehaviors(behaviors: IEmitterBehavior[]): this {
+    const program = compileEmitterBehaviors(behaviors, this.material instanceof THREE.RawShaderMaterial);
+    this.behaviors = behaviors;
+    this.setVertexShader(program.vertexShader);
+    this.setFragmentShader(program.fragmentShader);
+    this.setUniforms(program.uniforms);
+    for (const [name, itemSize] of Object.entries(program.attributes))
+      this.addParticleAttribute(name, itemSize);
+    this.material.needsUpdate = true;
+    return this;
+  }
+
+  /**
+   * Bake curves and gradients into a texture atlas. Provides the
+   * `curveAtlas` and `curveAtlasSize` uniforms and a define per curve
+   * holding its row in the atlas, e.g. `CURVE_COLOR_OVER_LIFE` for
+   * `colorOverLife`. Sample curves in the shader via the
+   * `emitter_curves` chunk or use them in behaviors.
+   * 
+   * ```
+   * const emitter = new Emitter()
+   *   .setCurves({
+   *     alpha: [[0, 0], [0.2, 1], [1, 0]],
+   *     wobble: (t) => Math.sin(t * Math.PI * 4),
+   *   });
+   * ```
+   * 
+   * ```
+   * #include <emitter_curves>
+   * 
+   * void main() {
+   *   float alpha = sampleCurve(CURVE_ALPHA, age).x;
+   *   // ...
+   * }
+   * ```
+   * 
+   * @param {Record<string, IEmitterCurve>} curves - The curves.
+   * @param {number} resolution - The amount of texels per curve.
+   *   Default is `256`.
+   * @returns {this}
+   */
+  public setCurves(curves: Record<string, IEmitterCurve>, resolution: number = 256): this {
+    const defines = this.material.defines as Record<string, unknown>;
+    for (const name of Object.keys(this.curves))
+      Reflect.deleteProperty(defines, emitterCurveDefine(name));
+
+    const atlas = bakeEmitterCurves(curves, resolution);
+    for (const [name, row] of Object.entries(atlas.rows))
+      defines[emitterCurveDefine(name)] = `${String(row)}.0`;
+
+    this.curveAtlas?.dispose();
+    this.curveAtlas = atlas.texture;
+    this.curves = curves;
+    this.setUniforms({
+      curveAtlas: { value: atlas.texture },
+      curveAtlasSize: { value: new THREE.Vector2(atlas.texture.image.width, atlas.texture.image.height) },
+    });
+    this.material.needsUpdate = true;
+    return this;
+  }
+
+  /**
+   * Set how the bounding volume used for frustum culling is computed.
+   * The volume covers the positions in `attribute` of all particles,
+   * expanded by `radius` and the size of the base geometry, and the
+   * explicit bounds of EmitterInstances, see
+   * `EmitterInstance.setBounds()`. Without a source of bounds, the
+   * volume is infinite and the emitter is never culled. The volume is
+   * re-computed on update whenever EmitterInstances or the attribute
+   * changed.
+   * 
+   * ```
+   * const emitter = new Emitter({ maxParticles: 1000 })
+   *   .setBounds({ attribute: "emitterPosition", radius: 5 });
+   * ```
+   * 
+   * @param {IEmitterBoundsOptions | null} bounds - The options or `null`
+   *   to only use the bounds of EmitterInstances.
+   * @returns {this}
+   */
+  public setBounds(bounds: IEmitterBoundsOptions | null): this {
+    this.bounds = bounds ? { attribute: bounds.attribute, radius: bounds.radius ?? 0 } : null;
+    this.boundsNeedUpdate = true;
+    return this;
+  }
+
+  /**
+   * Re-compute the bounding box and sphere of the emitter's geometry,
+   * see `setBounds()`. Called on update if `boundsNeedUpdate` is set.
+   * 
+   * ```
+   * emitter.updateBounds();
+   * console.log(emitter.geometry.boundingSphere);
+   * ```
+   * 
+   * @returns {this}
+   */
+  public updateBounds(): this {
+    this.boundsNeedUpdate = false;
+    const box = new THREE.Box3();
+    const attr = this.bounds && this.geometry.getAttribute(this.bounds.attribute) as THREE.BufferAttribute | THREE.InterleavedBufferAttribute | undefined;
+    const positions = attr && this.isParticleAttribute(attr) && attr.itemSize >= 3 ? attr : null;
+
+    // Ranges of particle slots without explicit bounds
+    const ranges: [number, number][] = [];
+    if (this.knownInstances.size > 0) {
+      for (const instance of this.knownInstances) {
+        if (instance.bounds)
+          box.union(instance.bounds);
+        else
+          ranges.push([instance.offset, instance.offset + instance.particleAmount]);
+      }
+    }
+    else {
+      ranges.push([0, Math.min(this.particleAmount, this.maxParticles)]);
+    }
+
+    const unbounded = ranges.some(([start, end]) => end > start) && !positions;
+    if (positions) {
+      const point = new THREE.Vector3();
+      const particles = new THREE.Box3();
+      for (const [start, end] of ranges) {
+        for (let i = start; i < end; i++)
+          particles.expandByPoint(point.fromBufferAttribute(positions, i));
+      }
+      if (!particles.isEmpty()) {
+        const base = this.geometry.getAttribute("position") as THREE.BufferAttribute | undefined;
+        const extent = base && !this.isParticleAttribute(base) ? new THREE.Box3().setFromBufferAttribute(base) : null;
+        const size = extent ? Math.max(extent.min.length(), extent.max.length()) : 0;
+        box.union(particles.expandByScalar((this.bounds?.radius ?? 0) + size));
+      }
+    }
+
+    if (unbounded) {
+      this.geometry.boundingBox = new THREE.Box3().set(new THREE.Vector3(-Infinity, -Infinity, -Infinity), new THREE.Vector3(Infinity, Infinity, Infinity));
+      this.geometry.boundingSphere = new THREE.Sphere(new THREE.Vector3(), Infinity);
+    }
+    else {
+      this.geometry.boundingBox = box;
+      this.geometry.boundingSphere = box.isEmpty() ? new THREE.Sphere() : box.getBoundingSphere(new THREE.Sphere());
+    }
+    return this;
+  }
+
+  /**
+   * Sort the particles back to front on each update, so transparent
+   * particles blend correctly. The particle data is reordered in the
+   * attributes, EmitterInstances are moved like by `compact()`. Particles
+   * are sorted by the base positions in `attribute`, the movement in the
+   * shader isn't taken into account. Particles of an emitter or
+   * EmitterInstance with an emission model are only sorted in
+   * `"instance"` mode, `"particle"` mode reports `UNSUPPORTED_SORT` for
+   * them.
+   * 
+   * ```
+   * emitter.setSort({ mode: "instance", attribute: "emitterPosition", interval: 0.1 });
+   * ```
+   * 
+   * @param {IEmitterSortOptions | null} sort - The options or `null` to
+   *   stop sorting.
+   * @returns {this}
+   */
+  public setSort(sort: IEmitterSortOptions | null): this {
+    this.sort = sort ?
+      { mode: sort.mode, attribute: sort.attribute, camera: sort.camera ?? null, interval: sort.interval ?? 0, budget: sort.budget ?? Infinity } :
+      null;
+    if (this.sort?.mode === "particle" && (this.emission || [...this.knownInstances].some((instance) => instance.emission)))
+      this.report(new EmitterError("UNSUPPORTED_SORT", "Particles with an emission model are only sorted by instance.", { emitter: this }));
+    this.sortElapsed = Infinity;
+    this.sortCursor = 0;
+    return this;
+  }
+
+  /**
+   * Sort the particles back to front, see `setSort()`. Called on update
+   * while sorting is enabled.
+   * 
+   * ```
+   * emitter.sortParticles(camera);
+   * ```
+   * 
+   * @param {THREE.Camera | null} [camera] - The camera to sort for.
+   *   Defaults to the sort options' camera or the camera which rendered
+   *   the emitter last.
+   * @returns {this}
+   */
+  public sortParticles(camera: THREE.Camera | null = this.sort?.camera ?? this.renderCamera): this {
+    if (!this.sort || !camera)
+      return this;
+    const attr = this.geometry.getAttribute(this.sort.attribute) as THREE.BufferAttribute | THREE.InterleavedBufferAttribute | undefined;
+    const positions = attr && this.isParticleAttribute(attr) && attr.itemSize >= 3 ? attr : null;
+
+    // The camera position in the emitter's local space
+    this.updateWorldMatrix(true, false);
+    camera.updateWorldMatrix(true, false);
+    const eye = new THREE.Vector3()
+      .setFromMatrixPosition(camera.matrixWorld)
+      .applyMatrix4(new THREE.Matrix4().copy(this.matrixWorld).invert());
+
+    if (this.knownInstances.size === 0) {
+      if (this.sort.mode === "particle" && positions && !this.emission)
+        this.sortRange(positions, eye, 0, Math.min(this.particleAmount, this.maxParticles));
+      return this;
+    }
+
+    const point = new THREE.Vector3();
+    const distances = new Map([...this.knownInstances].map((instance) => {
+      if (instance.bounds)
+        return [instance, instance.bounds.getCenter(point).distanceToSquared(eye)];
+      if (!positions || instance.particleAmount === 0)
+        return [instance, 0];
+      const center = new THREE.Vector3();
+      for (let i = instance.offset; i < instance.offset + instance.particleAmount; i++)
+        center.add(point.fromBufferAttribute(positions, i));
+      return [instance, center.divideScalar(instance.particleAmount).distanceToSquared(eye)];
+    }));
+    const instances = [...this.knownInstances].sort((a, b) => (distances.get(b) ?? 0) - (distances.get(a) ?? 0));
+    this.reorderInstances(instances);
+
+    // Moving particles within an emission's ring buffer would overwrite living particles
+    const sortable = instances.filter((instance) => !instance.emission);
+    if (this.sort.mode === "particle" && positions && sortable.length > 0) {
+      let budget = this.sort.budget;
+      let sorted = 0;
+      while (sorted < sortable.length && budget > 0) {
+        const instance = sortable[(this.sortCursor + sorted++) % sortable.length];
+        this.sortRange(positions, eye, instance.offset, instance.offset + instance.particleAmount);
+        budget -= instance.particleAmount;
+      }
+      this.sortCursor = (this.sortCursor + sorted) % sortable.length;
+    }
+    return this;
+  }
+
+  /**
+   * Move the EmitterInstances to the start of the attribute buffers in
+   * the given order. Used internally by `sortParticles()`.
+   * 
+   * @param {EmitterInstance[]} instances - The EmitterInstances in the
+   *   new order.
+   * @returns {void}
+   */
+  protected reorderInstances(instances: EmitterInstance<TAttributes>[]): void {
+    let cursor = 0;
+    const ordered = instances.every((instance) => {
+      const offset = cursor;
+      cursor += instance.particleAmount;
+      return instance.offset === offset;
+    });
+    if (ordered)
+      return;
+
+    const end = this.allocator.end;
+    for (const [name, attr] of this.getParticleAttributes()) {
+      const source = attr.array.slice(0, end * attr.itemSize);
+      let target = 0;
+      for (const instance of instances) {
+        attr.array.set(source.subarray(instance.offset * attr.itemSize, (instance.offset + instance.particleAmount) * attr.itemSize), target * attr.itemSize);
+        target += instance.particleAmount;
+      }
+      attr.array.fill(0, target * attr.itemSize, end * attr.itemSize);
+      this.markAttributeDirty(name, 0, end * attr.itemSize);
+    }
+
+    cursor = 0;
+    for (const instance of instances) {
+      // Only moved EmitterInstances need new subarrays
+      if (instance.offset !== cursor) {
+        instance.offset = cursor;
+        instance.calculateAttributeSubarrays();
+      }
+      cursor += instance.particleAmount;
+    }
+    this.resetInstanceUniforms(cursor, end);
+
+    this.allocator.reset();
+    this.allocator.allocate(cursor);
+    this.geometry.instanceCount = this.allocator.end;
+  }
+
+  /**
+   * Order the particles in a range of particle slots back to front.
+   * Used internally by `sortParticles()`.
+   * 
+   * @param {THREE.InstancedBufferAttribute} positions - The positions.
+   * @param {THREE.Vector3} eye - The camera position in local space.
+   * @param {number} start - The index of the first particle slot.
+   * @param {number} end - The index after the last particle slot.
+   * @returns {void}
+   */
+  protected sortRange(positions: THREE.InstancedBufferAttribute, eye: THREE.Vector3, start: number, end: number): void {
+    const point = new THREE.Vector3();
+    const distances = new Float32Array(end - start);
+    for (let i = start; i < end; i++)
+      distances[i - start] = point.fromBufferAttribute(positions, i).distanceToSquared(eye);
+
+    const order = Array.from({ length: end - start }, (_, i) => i).sort((a, b) => distances[b] - distances[a]);
+    if (order.every((index, i) => index === i))
+      return;
+
+    for (const [name, attr] of this.getParticleAttributes()) {
+      const size = attr.itemSize;
+      const source = attr.array.slice(start * size, end * size);
+      for (const [i, index] of order.entries())
+        attr.array.set(source.subarray(index * size, (index + 1) * size), (start + i) * size);
+      this.markAttributeDirty(name, start * size, (end - start) * size);
+    }
+  }
+
+  /**
+   * Simulate the particle motion on the CPU, so the particle state can
+   * be queried and collisions can be handled, see `EmitterSimulation`.
+   * The simulated positions and velocities are written to per particle
+   * attributes on each update.
+   * 
+   * ```
+   * emitter.setSimulation({
+   *   forces: [
+   *     { type: "gravity", value: [0, -9.81, 0] },
+   *     { type: "plane", normal: [0, 1, 0], bounce: 0.5 },
+   *   ]
+   * });
+   * 
+   * emitter.simulation?.onCollision(({ particle }) => console.log(particle.position));
+   * ```
+   * 
+   * @param {IEmitterSimulationOptions | null} simulation - The options or
+   *   `null` to stop simulating.
+   * @returns {this}
+   */
+  public setSimulation(simulation: IEmitterSimulationOptions | null): this {
+    this.simulation = simulation ? new EmitterSimulation(this, simulation) : null;
+    return this;
+  }
+
+  /**
+   * Spawn effects on an emitter when particles of this emitter or its
+   * EmitterInstances die or reach an age, see `EmitterSubEmitter`. The
+   * particles need an emission model. Children are released once their
+   * duration elapsed and cancelled when the sub-emitter is removed.
+   * Children may be spawned on this emitter itself if its particles
+   * live in EmitterInstances. Throws an `EmitterError` with the code
+   * `INVALID_SUB_EMITTER` if the children would be spawned into the
+   * ring buffer of this emitter's own emission instead.
+   * 
+   * ```
+   * const explosions = rockets.addSubEmitter({
+   *   emitter: sparks,
+   *   amount: 100,
+   *   duration: 1,
+   *   gravity: [0, -9.81, 0],
+   *   inherit: ["color"]
+   * });
+   * ```
+   * 
+   * @param {ISubEmitterOptions} options - The options.
+   * @returns {EmitterSubEmitter}
+   */
+  public addSubEmitter(options: ISubEmitterOptions): EmitterSubEmitter {
+    if (options.emitter === this && this.emission && this.knownInstances.size === 0)
+      throw new EmitterError("INVALID_SUB_EMITTER", "A sub-emitter can't spawn children on its parent Emitter while the parent emits on its own.", { emitter: this });
+    const subEmitter = new EmitterSubEmitter(this, options);
+    this.subEmitters.push(subEmitter);
+    return subEmitter;
+  }
+
+  /**
+   * Remove a sub-emitter added by `addSubEmitter()` and cancel its
+   * running children.
+   * 
+   * ```
+   * rockets.removeSubEmitter(explosions);
+   * ```
+   * 
+   * @param {EmitterSubEmitter} subEmitter - The sub-emitter.
+   * @returns {this}
+   */
+  public removeSubEmitter(subEmitter: EmitterSubEmitter): this {
+    const index = this.subEmitters.indexOf(subEmitter);
+    if (index !== -1) {
+      this.subEmitters.splice(index, 1);
+      subEmitter.dispose();
+    }
+    return this;
+  }
+
+  /**
+   * Animate particles with a sprite sheet. Adds the `flipbook*` uniforms
+   * and the per particle `flipbookOffset` attribute holding the start
+   * frame of each particle, random if `randomStart` is set. Use the
+   * `emitter_flipbook_vertex` and `emitter_flipbook_fragment` chunks to
+   * sample the frames with the `uv` built-in, e.g. provided by
+   * `setAttributesFromGeometry()`.
+   * 
+   * ```
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   geometry: new THREE.PlaneGeometry(1, 1),
+   *   vert: `
+   *     attribute vec2 uv;
+   *     #include <emitter_flipbook_vertex>
+   *     #include <emitter_lifecycle>
+   * 
+   *     void main() {
+   *       flipbookFrame(uv, time - birthTime);
+   *       // ...
    *     }
-   *   `);
+   *   `,
+   *   frag: `
+   *     #include <emitter_flipbook_fragment>
+   * 
+   *     void main() {
+   *       gl_FragColor = sampleFlipbook();
+   *     }
+   *   `
+   * }).setFlipbook({ texture: smokeTexture, rows: 8, columns: 8, randomStart: true });
    * ```
    * 
-   * @param {string} shader - The GLSL vertex shader used to render
-   *   particles.
+   * @param {IEmitterFlipbookOptions} flipbook - The options.
    * @returns {this}
    */
-  public setVertexShader(shader: string): this {
-    this.material.vertexShader = shader;
+  public setFlipbook(flipbook: IEmitterFlipbookOptions): this {
+    this.flipbook = {
+      texture: flipbook.texture,
+      rows: flipbook.rows,
+      columns: flipbook.columns,
+      frames: flipbook.frames ?? flipbook.rows * flipbook.columns,
+      fps: flipbook.fps ?? 24,
+      randomStart: flipbook.randomStart ?? false,
+      random: flipbook.random ?? null,
+      blend: flipbook.blend ?? false,
+      loop: flipbook.loop ?? true,
+    };
+
+    this.setUniforms({
+      flipbookTexture: { value: this.flipbook.texture },
+      flipbookGrid: { value: new THREE.Vector2(this.flipbook.columns, this.flipbook.rows) },
+      flipbookFrames: { value: this.flipbook.frames },
+      flipbookFps: { value: this.flipbook.fps },
+      flipbookBlend: { value: this.flipbook.blend ? 1 : 0 },
+      flipbookLoop: { value: this.flipbook.loop ? 1 : 0 },
+    });
+    this.addParticleAttribute("flipbookOffset", 1);
+    this.resetFlipbookOffsets(0, this.maxParticles);
+    return this;
+  }
+
+  /**
+   * Write the start frames of the flipbook animation to a range of
+   * particle slots, e.g. for new EmitterInstances.
+   * Used internally.
+   * 
+   * @param {number} start - The index of the first particle slot.
+   * @param {number} end - The index after the last particle slot.
+   * @returns {void}
+   */
+  protected resetFlipbookOffsets(start: number, end: number): void {
+    const attr = this.geometry.getAttribute("flipbookOffset") as THREE.BufferAttribute | undefined;
+    if (!this.flipbook || !attr)
+      return;
+
+    const { frames, random } = this.flipbook;
+    for (let i = start; i < Math.min(end, attr.count); i++)
+      attr.array[i] = this.flipbook.randomStart ? Math.floor((random?.next() ?? Math.random()) * frames) : 0;
+    this.markAttributeDirty("flipbookOffset", start, end - start);
+  }
+
+  /**
+   * Define whether problems throw an `EmitterError`, see the `strict`
+   * option.
+   * Default is `false`.
+   * 
+   * ```
+   * const emitter = new Emitter()
+   *   .setStrict(true);
+   * ```
+   * 
+   * @param {boolean} strict - Whether problems throw.
+   * @returns {this}
+   */
+  public setStrict(strict: boolean): this {
+    this.strict = strict;
+    return this;
+  }
+
+  /**
+   * Define whether problems are passed to the logger, see the `debug`
+   * option.
+   * Default is `false`.
+   * 
+   * ```
+   * const emitter = new Emitter()
+   *   .setDebug(true);
+   * ```
+   * 
+   * @param {boolean} debug - Whether problems are logged.
+   * @returns {this}
+   */
+  public setDebug(debug: boolean): this {
+    this.debug = debug;
+    return this;
+  }
+
+  /**
+   * Set the logger receiving warnings in `debug` mode.
+   * 
+   * ```
+   * const emitter = new Emitter({ debug: true })
+   *   .setLogger({ warn: (error) => myLogger.warn(error.message) });
+   * ```
+   * 
+   * @param {IEmitterLogger} logger - The logger.
+   * @returns {this}
+   */
+  public setLogger(logger: IEmitterLogger): this {
+    this.logger = logger;
+    return this;
+  }
+
+  /**
+   * Define whether the emitter should update automatically.
+   * Default is `true`.
+   * 
+   * ```
+   * const autoEmitter = new Emitter();
+   * const manualEmitter = new Emitter()
+   *   .setAutoUpdate(false);
+   * 
+   * function update(ms) {
+   *   manualEmitter.update();
+   *   requestAnimationFrame(update);
+   * }
+   * ```
+   * 
+   * @param {boolean} autoUpdate - Whether the emitter should update
+   *   automatically.
+   * @returns {this}
+   */
+  public setAutoUpdate(autoUpdate: boolean): this {
+    this.autoUpdate = autoUpdate;
+    if (autoUpdate)
+      this.manager.register(this);
+    else
+      this.manager.unregister(this);
+    return this;
+  }
+
+  /**
+   * Set the manager updating the emitter if `autoUpdate` is set.
+   * 
+   * ```
+   * const manager = new EmitterManager();
+   * const emitter = new Emitter()
+   *   .setManager(manager);
+   * ```
+   * 
+   * @param {EmitterManager} manager - The manager.
+   * @returns {this}
+   */
+  public setManager(manager: EmitterManager): this {
+    this.manager.unregister(this);
+    this.manager = manager;
+    return this.setAutoUpdate(this.autoUpdate);
+  }
+
+  /**
+   * Set the clock used to advance the `time` uniform. The next update
+   * advances it by the time passed on the clock since then.
+   * 
+   * ```
+   * const clock = new ManualEmitterClock();
+   * const emitter = new Emitter()
+   *   .setAutoUpdate(false)
+   *   .setClock(clock);
+   * 
+   * clock.tick(16);
+   * emitter.update();
+   * ```
+   * 
+   * @param {IEmitterClock} clock - The clock.
+   * @returns {this}
+   */
+  public setClock(clock: IEmitterClock): this {
+    this.clock = clock;
+    this.timestamp = clock.now();
+    return this;
+  }
+
+  /**
+   * Set the speed at which the `time` uniform advances, e.g. `0.5` for
+   * half speed or `2` for double speed.
+   * 
+   * ```
+   * const emitter = new Emitter()
+   *   .setTimeScale(0.25);
+   * ```
+   * 
+   * @param {number} timeScale - The speed.
+   * @returns {this}
+   */
+  public setTimeScale(timeScale: number): this {
+    this.timeScale = timeScale;
+    return this;
+  }
+
+  /**
+   * Pause the emitter. The `time` uniform stops advancing until the
+   * emitter is resumed.
+   * 
+   * ```
+   * emitter.pause();
+   * ```
+   * 
+   * @returns {this}
+   */
+  public pause(): this {
+    this.paused = true;
+    return this;
+  }
+
+  /**
+   * Resume a paused emitter.
+   * 
+   * ```
+   * emitter.resume();
+   * ```
+   * 
+   * @returns {this}
+   */
+  public resume(): this {
+    this.paused = false;
+    return this;
+  }
+
+  /**
+   * Set the `time` uniform to an arbitrary time.
+   * 
+   * ```
+   * emitter.seek(2.5);
+   * ```
+   * 
+   * @param {number} time - The time in seconds.
+   * @returns {this}
+   */
+  public seek(time: number): this {
+    this.time = time;
+    return this;
+  }
+
+  /**
+   * Advance the `time` uniform by a fixed delta. Ignores the clock,
+   * `timeScale` and `paused`, e.g. to step through a paused emitter
+   * frame by frame.
+   * 
+   * ```
+   * const emitter = new Emitter()
+   *   .setAutoUpdate(false);
+   * 
+   * for (let i = 0; i < 60; i++)
+   *   emitter.step(1 / 60);
+   * ```
+   * 
+   * @param {number} delta - The delta in seconds.
+   * @returns {this}
+   */
+  public step(delta: number): this {
+    this.advance(delta);
+    return this;
+  }
+
+  /**
+   * Set the emission model of the emitter. Creates the `birthTime` and
+   * `lifetime` attributes if needed. Without EmitterInstances, the
+   * emitter emits into its first `particleAmount` particle slots, which
+   * defaults to `maxParticles` if it wasn't set.
+   * 
+   * ```
+   * const emitter = new Emitter({ maxParticles: 1000 })
+   *   .setEmission({ rate: 100, lifetime: 2 });
+   * emitter.particleAmount = 200; // Only use the first 200 slots
+   * ```
+   * 
+   * @param {IEmitterEmissionOptions | null} emission - The emission
+   *   options or `null` to stop emitting.
+   * @returns {this}
+   */
+  public setEmission(emission: IEmitterEmissionOptions | null): this {
+    if (emission) {
+      this.addParticleAttribute("birthTime", 1);
+      this.addParticleAttribute("lifetime", 1);
+      if (this.knownInstances.size === 0 && this.particleAmount === 0)
+        this.particleAmount = this.maxParticles;
+    }
+    this.emission = emission ? new EmitterEmission(emission) : null;
+    return this;
+  }
+
+  /**
+   * Emit particles immediately, e.g. for manually triggered bursts.
+   * Only used while the emitter has no EmitterInstances, see
+   * `EmitterInstance.emit()` otherwise.
+   * 
+   * ```
+   * emitter.emit(100);
+   * ```
+   * 
+   * @param {number} amount - The amount of particles.
+   * @returns {this}
+   */
+  public emit(amount: number): this {
+    const ranges = this.getEmissionRange();
+    if (this.emission && ranges) {
+      const cursor = this.emission.cursor;
+      this.emission.emit(amount, this.time, ranges[0], ranges[1]);
+      this.markEmissionDirty(cursor, amount, ranges[0].length);
+    }
+    return this;
+  }
+
+  /**
+   * Define whether the emitter should grow its capacity when
+   * EmitterInstances don't fit into the free particle slots anymore.
+   * The capacity will at least be doubled on each growth.
+   * Default is `false`.
+   * 
+   * ```
+   * const emitter = new Emitter({ maxParticles: 1000 })
+   *   .setAutoGrow(true);
+   * 
+   * const instance = new EmitterInstance(emitter, 1500);
+   * console.log(emitter.maxParticles); // 2000
+   * ```
+   * 
+   * @param {boolean} autoGrow - Whether the emitter should grow
+   *   automatically.
+   * @returns {this}
+   */
+  public setAutoGrow(autoGrow: boolean): this {
+    this.autoGrow = autoGrow;
+    return this;
+  }
+
+  /**
+   * Change the maximum number of particles. Re-allocates all
+   * per-particle attributes, preserves their data and rebinds the
+   * attribute subarrays of all EmitterInstances to the new buffers.
+   * When shrinking, the emitter is compacted first. The capacity
+   * never shrinks below the particle slots in use.
+   * 
+   * ```
+   * const emitter = new Emitter({
+   *   maxParticles: 1000,
+   *   attributes: {
+   *     rng: new THREE.InstancedBufferAttribute(new Float32Array(1000), 1)
+   *   }
+   * });
+   * 
+   * emitter.resize(5000);
+   * console.log(emitter.attributes.rng.array.length); // 5000
+   * ```
+   * 
+   * @param {number} maxParticles - The new maximum number of particles.
+   * @returns {this}
+   */
+  public resize(maxParticles: number): this {
+    if (maxParticles < this.allocator.end)
+      this.compact();
+    maxParticles = Math.max(maxParticles, this.allocator.end);
+    if (maxParticles === this.maxParticles)
+      return this;
+
+    for (const [name, attr] of this.getParticleAttributes()) {
+      const TypedArray = attr.array.constructor as new (length: number) => THREE.TypedArray;
+      const array = new TypedArray(maxParticles * attr.itemSize);
+      array.set(attr.array.subarray(0, Math.min(attr.array.length, array.length)));
+
+      const resized = new THREE.InstancedBufferAttribute(array, attr.itemSize, attr.normalized, attr.meshPerAttribute);
+      resized.name = attr.name;
+      resized.setUsage(attr.usage);
+      this.geometry.setAttribute(name, resized);
+    }
+
+    const capacity = this.maxParticles;
+    this.allocator.setCapacity(maxParticles);
+    this.resetInstanceUniforms(capacity, maxParticles);
+    this.resetFlipbookOffsets(capacity, maxParticles);
+    this.geometry.instanceCount = Math.min(this.geometry.instanceCount, maxParticles);
+    // Release the old buffers, the renderer will upload the new ones
+    this.geometry.dispose();
+
+    for (const instance of this.knownInstances)
+      instance.calculateAttributeSubarrays();
     return this;
   }
 
   /**
-   * Set the uniforms used in the shader.
-   * Stays the same across instances. Can be changed during runtime.
+   * Registers new EmitterInstances with the Emitter and allocates a
+   * range of particle slots for them. Grows the emitter if `autoGrow`
+   * is set, otherwise instances that don't fit into a free range are
+   * clamped to the largest free range.
+   * Used internally.
+   * 
+   * @param {EmitterInstance} instance - The new EmitterInstance.
+   * @param {number} [offset] - The preferred index of the first particle
+   *   slot. Falls back to any free range if the slots are taken.
+   * @returns {void}
+   */
+  public instanceAdded(instance: EmitterInstance<TAttributes>, offset?: number): void {
+    if (!this.knownInstances.has(instance)) {
+      if (offset === undefined || !this.allocator.allocateAt(offset, instance.particleAmount)) {
+        if (this.allocator.largestFreeRange < instance.particleAmount) {
+          this.dispatchEvent({
+            type: "capacityexceeded",
+            instance,
+            requested: instance.particleAmount,
+            available: Math.max(this.allocator.largestFreeRange, 0),
+          });
+        }
+        if (this.autoGrow && this.allocator.largestFreeRange < instance.particleAmount)
+          this.resize(Math.max(this.maxParticles * 2, this.allocator.end + instance.particleAmount));
+        if (this.allocator.largestFreeRange < instance.particleAmount) {
+          this.report(new EmitterError(
+            "INSTANCE_OVERFLOW",
+            `The instance needs ${String(instance.particleAmount)} particles but only ${String(this.allocator.largestFreeRange)} are available.`,
+            { emitter: this, instance },
+          ));
+        }
+        instance.particleAmount = Math.min(instance.particleAmount, Math.max(this.allocator.largestFreeRange, 0));
+        offset = Math.max(0, this.allocator.allocate(instance.particleAmount));
+      }
+      instance.offset = offset;
+      this.knownInstances.add(instance);
+      this.resetFlipbookOffsets(offset, offset + instance.particleAmount);
+      this.boundsNeedUpdate = true;
+      this.geometry.instanceCount = this.allocator.end;
+      this.updateDefines();
+      this.dispatchEvent({ type: "instanceadded", instance });
+    }
+  }
+
+  /**
+   * Unregister EmitterInstances with the Emitter and release their
+   * particle slots. The released slots are cleared and re-used by
+   * later EmitterInstances. Only the cleared range is touched, use
+   * `compact()` to remove the resulting holes.
+   * Used internally.
+   * 
+   * @param {EmitterInstance} instance - The disposed EmitterInstance.
+   * @returns {void}
+   */
+  public instanceRemoved(instance: EmitterInstance<TAttributes>): void {
+    if (this.knownInstances.has(instance)) {
+      this.knownInstances.delete(instance);
+      for (const [name, attr] of this.getParticleAttributes()) {
+        attr.array.fill(0, instance.offset * attr.itemSize, (instance.offset + instance.particleAmount) * attr.itemSize);
+        this.markAttributeDirty(name, instance.offset * attr.itemSize, instance.particleAmount * attr.itemSize);
+      }
+      this.resetInstanceUniforms(instance.offset, instance.offset + instance.particleAmount);
+      this.allocator.free(instance.offset, instance.particleAmount);
+      this.boundsNeedUpdate = true;
+      this.geometry.instanceCount = this.allocator.end;
+      this.updateDefines();
+      this.dispatchEvent({ type: "instanceremoved", instance });
+    }
+    else {
+      this.report(new EmitterError("INSTANCE_DISPOSED", "The instance has already been disposed.", { emitter: this, instance }));
+    }
+  }
+
+  /**
+   * Defragment the particle slots. Moves the ranges of all
+   * EmitterInstances to the start of the attribute buffers, so that
+   * no freed slots are drawn in between, and rebinds the instances'
+   * attribute subarrays.
    * 
    * ```
-   * const emitter = new Emitter()
-   *   .setUniforms({
-   *     random: { value: Math.random() }
-   *   });
+   * const a = new EmitterInstance(emitter, 100);
+   * const b = new EmitterInstance(emitter, 100);
+   * a.dispose();
+   * console.log(b.offset); // 100
+   * emitter.compact();
+   * console.log(b.offset); // 0
    * ```
    * 
-   * @param {Record<string, THREE.IUniform>} uniforms - The uniforms used
-   *   in the shader.
    * @returns {this}
    */
-  public setUniforms(uniforms: Record<string, THREE.IUniform>): this {
-    for (const [name, attr] of Object.entries(uniforms)) {
-      if (!(name in this.material.uniforms))
-        this.material.uniforms[name] = { value: attr.value as unknown };
-      else
-        this.material.uniforms[name].value = attr.value as unknown;
+  public compact(): this {
+    if (this.allocator.holes === 0)
+      return this;
+
+    const attributes = this.getParticleAttributes();
+    const end = this.allocator.end;
+    const instances = [...this.knownInstances].sort((a, b) => a.offset - b.offset);
+    let cursor = 0;
+
+    for (const instance of instances) {
+      if (instance.offset !== cursor) {
+        for (const [, attr] of attributes) {
+          const start = instance.offset * attr.itemSize;
+          attr.array.copyWithin(cursor * attr.itemSize, start, start + instance.particleAmount * attr.itemSize);
+        }
+        instance.offset = cursor;
+        instance.calculateAttributeSubarrays();
+      }
+      cursor += instance.particleAmount;
+    }
+
+    for (const [name, attr] of attributes) {
+      attr.array.fill(0, cursor * attr.itemSize, end * attr.itemSize);
+      this.markAttributeDirty(name, 0, end * attr.itemSize);
     }
+    this.resetInstanceUniforms(cursor, end);
+
+    this.allocator.reset();
+    this.allocator.allocate(cursor);
+    this.geometry.instanceCount = this.allocator.end;
     return this;
   }
 
   /**
-   * Define whether the emitter should update automatically.
-   * Default is `true`.
+   * Add a per-particle attribute if it doesn't exist yet and rebind the
+   * attribute subarrays of all EmitterInstances.
+   * Used internally for attributes managed by the emitter.
    * 
-   * ```
-   * const autoEmitter = new Emitter();
-   * const manualEmitter = new Emitter()
-   *   .setAutoUpdate(false);
+   * @param {string} name - The name of the attribute.
+   * @param {number} itemSize - The item size of the attribute.
+   * @returns {THREE.InstancedBufferAttribute}
+   */
+  public addParticleAttribute(name: string, itemSize: number): THREE.InstancedBufferAttribute {
+    const existing = this.geometry.getAttribute(name) as THREE.BufferAttribute | THREE.InterleavedBufferAttribute | undefined;
+    if (existing && this.isParticleAttribute(existing))
+      return existing;
+
+    const attr = new THREE.InstancedBufferAttribute(new Float32Array(this.maxParticles * itemSize), itemSize);
+    this.geometry.setAttribute(name, attr);
+    for (const instance of this.knownInstances)
+      instance.calculateAttributeSubarrays();
+    this.updateDefines();
+    return attr;
+  }
+
+  /**
+   * Flag a range of an attribute's array for upload. Only the flagged
+   * ranges are uploaded on the next render, ranges flagged in the same
+   * frame are merged with overlapping and adjacent ones. EmitterInstances
+   * flag the ranges they write to automatically.
+   * 
+   * Call it after writing to an attribute's array directly. Setting
+   * `needsUpdate` instead uploads the whole attribute on the next render,
+   * including the ranges flagged in the same frame.
    * 
-   * function update(ms) {
-   *   manualEmitter.update();
-   *   requestAnimationFrame(update);
-   * }
+   * ```
+   * const attr = emitter.geometry.attributes.emitterPosition;
+   * attr.array.set([0, 1, 0], 30);
+   * emitter.markAttributeDirty("emitterPosition", 30, 3);
    * ```
    * 
-   * @param {boolean} autoUpdate - Whether the emitter should update
-   *   automatically.
-   * @returns {this}
+   * @param {string} name - The name of the attribute.
+   * @param {number} [start] - The index of the first changed element of
+   *   the array. Default is `0`.
+   * @param {number} [count] - The amount of changed elements. Defaults to
+   *   the rest of the array.
+   * @returns {void}
    */
-  public setAutoUpdate(autoUpdate: boolean): this {
-    this.autoUpdate = autoUpdate;
-    if (autoUpdate)
-      requestAnimationFrame(this.update.bind(this));
-    return this;
+  public markAttributeDirty(name: string, start: number = 0, count?: number): void {
+    const attr = this.geometry.getAttribute(name) as THREE.BufferAttribute | THREE.InterleavedBufferAttribute | undefined;
+    if (!attr || attr instanceof THREE.InterleavedBufferAttribute)
+      return;
+
+    count = Math.min(count ?? attr.array.length - start, attr.array.length - start);
+    if (count <= 0)
+      return;
+
+    this.trackFullUploads(attr);
+    if (!this.fullUploads.has(attr)) {
+      // Keep the ranges sorted and merged, so they don't pile up
+      const ranges = attr.updateRanges.map((range) => ({ ...range }));
+      let end = start + count;
+      let index = 0;
+      while (index < ranges.length && ranges[index].start + ranges[index].count < start)
+        index++;
+      let removed = 0;
+      while (index + removed < ranges.length && ranges[index + removed].start <= end) {
+        const range = ranges[index + removed];
+        start = Math.min(start, range.start);
+        end = Math.max(end, range.start + range.count);
+        removed++;
+      }
+      ranges.splice(index, removed, { start, count: end - start });
+      attr.clearUpdateRanges();
+      for (const range of ranges)
+        attr.addUpdateRange(range.start, range.count);
+    }
+    // Bypass `needsUpdate`, which flags a full upload
+    attr.version++;
+    if (name === this.bounds?.attribute)
+      this.boundsNeedUpdate = true;
   }
 
   /**
-   * Registers new EmitterInstances with the Emitter.
+   * Let `needsUpdate` flag an attribute for a full upload, clearing its
+   * update ranges, as it does for attributes without ranges.
    * Used internally.
    * 
-   * @param {EmitterInstance} instance - The new EmitterInstance.
+   * @param {THREE.BufferAttribute} attr - The attribute.
    * @returns {void}
    */
-  public instanceAdded(instance: EmitterInstance): void {
-    if (!this.knownInstances.has(instance)) {
-      this.knownInstances.add(instance);
-      this.geometry.instanceCount = Math.min(this.maxParticles, this.geometry.instanceCount + instance.particleAmount);
+  protected trackFullUploads(attr: THREE.BufferAttribute): void {
+    if (Object.prototype.hasOwnProperty.call(attr, "needsUpdate"))
+      return;
+    Object.defineProperty(attr, "needsUpdate", {
+      configurable: true,
+      set: (value: boolean): void => {
+        if (!value)
+          return;
+        attr.clearUpdateRanges();
+        this.fullUploads.add(attr);
+        attr.version++;
+      },
+    });
+  }
+
+  /**
+   * Flag the `birthTime` and `lifetime` slots written by the emission
+   * model of the emitter for upload. The slots are used as a ring
+   * buffer. Used internally.
+   * 
+   * @param {number} cursor - The emission's cursor before emitting.
+   * @param {number} amount - The amount of emitted particles.
+   * @param {number} length - The amount of slots.
+   * @returns {void}
+   */
+  protected markEmissionDirty(cursor: number, amount: number, length: number): void {
+    if (amount <= 0 || length <= 0)
+      return;
+
+    const start = cursor % length;
+    for (const name of ["birthTime", "lifetime"]) {
+      if (amount >= length) {
+        this.markAttributeDirty(name, 0, length);
+      }
+      else {
+        this.markAttributeDirty(name, start, Math.min(amount, length - start));
+        if (start + amount > length)
+          this.markAttributeDirty(name, 0, start + amount - length);
+      }
     }
   }
 
   /**
-   * Unregister EmitterInstances with the Emitter.
+   * Write the default values of the per-instance uniforms to a range of
+   * particle slots, e.g. after the slots were released.
    * Used internally.
    * 
-   * @param {EmitterInstance} instance - The disposed EmitterInstance.
+   * @param {number} start - The index of the first particle slot.
+   * @param {number} end - The index after the last particle slot.
    * @returns {void}
    */
-  public instanceRemoved(instance: EmitterInstance): void {
-    if (this.knownInstances.has(instance)) {
-      this.geometry.instanceCount = Math.max(0, this.geometry.instanceCount - instance.particleAmount);
-      this.removeAndShiftAttributes(instance);
-      this.knownInstances.delete(instance);
+  protected resetInstanceUniforms(start: number, end: number): void {
+    for (const [name, item] of Object.entries(this.instanceUniforms)) {
+      const attr = this.geometry.getAttribute(name) as THREE.BufferAttribute | undefined;
+      if (!attr || attr.itemSize !== item.length)
+        continue;
+      for (let i = start; i < end; i++)
+        attr.array.set(item, i * item.length);
+      this.markAttributeDirty(name, start * item.length, (end - start) * item.length);
     }
   }
 
   /**
-   * Removes ranges from BufferAttributes and shifts data.
-   * Used internally when unregistering EmitterInstances to re-populate
-   * attributes.
+   * Update the shader defines describing the emitter's state:
+   * `EMITTER_INSTANCES` while EmitterInstances exist and
+   * `EMITTER_LIFECYCLE` while the `birthTime` and `lifetime` attributes
+   * exist. Triggers a recompile when a define changes.
+   * Used internally.
    * 
-   * @param {EmitterInstance} instance - The disposed EmitterInstance.
    * @returns {void}
    */
-  protected removeAndShiftAttributes(instance: EmitterInstance): void {
-    for (const [name, attr] of Object.entries(instance.attributes)) {
-      if (!attr || !(name in this.geometry.attributes) || this.geometry.attributes[name].count < this.maxParticles)
+  protected updateDefines(): void {
+    const defines = this.material.defines as Record<string, unknown>;
+    const state: Record<string, boolean> = {
+      EMITTER_INSTANCES: this.knownInstances.size > 0,
+      EMITTER_LIFECYCLE: "birthTime" in this.geometry.attributes && "lifetime" in this.geometry.attributes,
+    };
+
+    for (const [name, enabled] of Object.entries(state)) {
+      if (enabled === name in defines)
         continue;
+      if (enabled)
+        defines[name] = "";
+      else
+        Reflect.deleteProperty(defines, name);
+      this.material.needsUpdate = true;
+    }
+  }
 
-      const start = instance.attributeIndices[name] ?? 0;
-      const end = start + attr.length;
-
-      this.geometry.attributes[name].array.fill(0, start, end);
-      this.geometry.attributes[name].array.set(this.geometry.attributes[name].array.subarray(end), start);
-      for (const siblingInstance of this.knownInstances) {
-        if (siblingInstance === instance || !siblingInstance.attributeIndices[name])
-          continue;
-        if (siblingInstance.attributeIndices[name] >= start) {
-          siblingInstance.attributeIndices[name] -= attr.length;
-          siblingInstance.calculateAttributeSubarrays();
-        }
-      }
-      this.geometry.attributes[name].needsUpdate = true;
+  /**
+   * Handle a problem: throws in `strict` mode, logs in `debug` mode and
+   * ignores it otherwise.
+   * Used internally.
+   * 
+   * @param {EmitterError} error - The problem.
+   * @returns {void}
+   */
+  public report(error: EmitterError): void {
+    if (this.strict)
+      throw error;
+    if (this.debug)
+      this.logger.warn(error);
+  }
+
+  /**
+   * Report shader compile errors of the program rendering the emitter.
+   * THREE only checks programs if `renderer.debug.checkShaderErrors` is
+   * set. Called after each render, checks each program once.
+   * Used internally.
+   * 
+   * @param {THREE.WebGLRenderer} renderer - The renderer.
+   * @returns {void}
+   */
+  protected checkProgram(renderer: THREE.WebGLRenderer): void {
+    if (!this.strict && !this.debug)
+      return;
+
+    const { currentProgram } = renderer.properties.get(this.material) as { currentProgram?: IProgramDiagnostics };
+    if (!currentProgram || currentProgram === this.checkedProgram)
+      return;
+
+    this.checkedProgram = currentProgram;
+    const diagnostics = currentProgram.diagnostics;
+    if (diagnostics && !diagnostics.runnable) {
+      const log = [diagnostics.programLog, diagnostics.vertexShader.log, diagnostics.fragmentShader.log]
+        .filter(Boolean)
+        .join("\n");
+      this.report(new EmitterError("SHADER_ERROR", `The shaders failed to compile: ${log}`, { emitter: this }));
+    }
+  }
+
+  /**
+   * Check whether an attribute is a per-particle attribute, i.e. an
+   * InstancedBufferAttribute providing a value for each of the
+   * `maxParticles` particle slots.
+   * Used internally.
+   * 
+   * @param {THREE.BufferAttribute | THREE.InterleavedBufferAttribute} attr -
+   *   The attribute to check.
+   * @returns {boolean}
+   */
+  public isParticleAttribute(attr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): attr is THREE.InstancedBufferAttribute {
+    return attr instanceof THREE.InstancedBufferAttribute && attr.count >= this.maxParticles;
+  }
+
+  /**
+   * Get all per-particle attributes.
+   * Used internally.
+   * 
+   * @returns {[string, THREE.InstancedBufferAttribute][]}
+   */
+  public getParticleAttributes(): [string, THREE.InstancedBufferAttribute][] {
+    const attributes: [string, THREE.InstancedBufferAttribute][] = [];
+    for (const [name, attr] of Object.entries(this.geometry.attributes)) {
+      if (this.isParticleAttribute(attr))
+        attributes.push([name, attr]);
     }
+    return attributes;
   }
 
   /**
    * Fill an attribute with a data. Handles floats, arrays of floats or
-   * functions that return floats.
+   * functions that return floats or arrays of floats. Functions
+   * returning arrays are called once per item and their values are
+   * written to the item, e.g. samplers from `EmitterSamplers`.
    * 
    * ```
    * const emitter = new Emitter()
@@ -457,41 +2413,69 @@ export default class Emitter extends THREE.Mesh<THREE.InstancedBufferGeometry, T
    * emitter.fillAttribute("random", (index) => Math.random());
    * emitter.fillAttribute("emitterPosition", [0, 0, 0]);
    * emitter.fillAttribute("someAttribute", 0);
+   * 
+   * const random = new EmitterRandom(42);
+   * emitter.fillAttribute("emitterPosition", sphereSampler({ radius: 1 }, random));
    * ```
    * 
    * @param {string} attribute - The attribute to fill.
-   * @param {number | number[] | ((index: number) => number)} value -
+   * @param {number | number[] | ((index: number) => number | number[])} value -
+   *   The value to fill with. Arrays must match the attribute's item
+   *   size.
+   * @returns {void}
+   */
+  public fillAttribute<TName extends IEmitterAttributeName<TAttributes>>(attribute: TName, value: IEmitterAttributeValueOf<TAttributes, TName>): void {
+    this.writeAttribute(attribute, value);
+  }
+
+  /**
+   * Fill an attribute with data, see `fillAttribute()`. Accepts any
+   * attribute name and value, both are checked at runtime only.
+   * Used internally.
+   * 
+   * @param {string} attribute - The attribute to fill.
+   * @param {number | number[] | ((index: number) => number | number[])} value -
    *   The value to fill with.
    * @returns {void}
    */
-  public fillAttribute(attribute: string, value: number | number[] | ((index: number) => number | number[])): void {
-    if (!(attribute in this.geometry.attributes))
+  protected writeAttribute(attribute: string, value: IEmitterAttributeValue<IEmitterAttribute>): void {
+    if (!(attribute in this.geometry.attributes)) {
+      this.report(new EmitterError("UNKNOWN_ATTRIBUTE", "Can't fill an unknown attribute.", { emitter: this, attribute }));
       return;
+    }
 
-    const data = this.geometry.attributes[attribute].array;
+    const { array: data, itemSize } = this.geometry.attributes[attribute];
     if (typeof value === "function") {
       let sourceIndex = 0;
       let destIndex = 0;
+      // Only report the first mismatching item
+      let valid = true;
       while (destIndex < data.length) {
         const val = value(sourceIndex++);
-        const arr = Array.isArray(val) ? val : [val];
-        data.set(arr, destIndex);
-        destIndex += arr.length;
+        const item = Array.isArray(val) ? val : [val];
+        if (valid && Array.isArray(val))
+          valid = validateEmitterAttributeItem(val, itemSize, this, { emitter: this, attribute });
+        // Mismatching items may not fit at the end
+        data.set(destIndex + item.length > data.length ? item.slice(0, data.length - destIndex) : item, destIndex);
+        destIndex += item.length;
       }
     }
     else if (Array.isArray(value)) {
+      validateEmitterAttributeItem(value, itemSize, this, { emitter: this, attribute });
       for (let i = 0; i < data.length; i += value.length)
-        data.set(value, i);
+        data.set(i + value.length > data.length ? value.slice(0, data.length - i) : value, i);
     }
     else {
       data.fill(value);
     }
-    this.geometry.attributes[attribute].needsUpdate = true;
+    this.markAttributeDirty(attribute);
   }
 
   /**
    * Updates the Emitter if autoUdate is set to false. Should be called
-   * every frame.
+   * every frame. Advances the `time` uniform by the time passed on the
+   * clock since the last update, or by `delta` if provided, scaled by
+   * `timeScale`. Doesn't advance while paused.
    * 
    * ```
    * const emitter = new Emitter()
@@ -503,14 +2487,417 @@ export default class Emitter extends THREE.Mesh<THREE.InstancedBufferGeometry, T
    * }
    * ```
    * 
+   * @param {number} [delta] - The time passed in seconds. Defaults to
+   *   the time passed on the clock.
    * @returns {void}
    */
-  public update(): void {
-    const now = Date.now();
-    (this.material.uniforms.time.value as number) += this.timestamp && (now - this.timestamp) / 1000 || 0;
+  public update(delta?: number): void {
+    const now = this.clock.now();
+    delta ??= this.timestamp === null ? 0 : (now - this.timestamp) / 1000;
     this.timestamp = now;
-    if (this.autoUpdate)
-      requestAnimationFrame(this.update.bind(this));
+    this.dispatchEvent({ type: "beforeupdate", delta });
+    if (!this.paused)
+      this.advance(delta * this.timeScale);
+    if (this.sort) {
+      this.sortElapsed += delta;
+      if (this.sortElapsed >= this.sort.interval) {
+        this.sortElapsed = 0;
+        this.sortParticles();
+      }
+    }
+    if (this.boundsNeedUpdate)
+      this.updateBounds();
+    this.dispatchEvent({ type: "afterupdate", delta });
+  }
+
+  /**
+   * Advance the `time` uniform and emit particles.
+   * Used internally.
+   * 
+   * @param {number} delta - The delta in seconds.
+   * @returns {void}
+   */
+  protected advance(delta: number): void {
+    this.time += delta;
+
+    // Collect dying particles before the emission re-uses their slots
+    for (const subEmitter of this.subEmitters)
+      subEmitter.collect(delta);
+
+    if (this.knownInstances.size > 0) {
+      for (const instance of this.knownInstances)
+        instance.update(delta);
+    }
+    else {
+      const ranges = this.getEmissionRange();
+      if (this.emission && ranges) {
+        const cursor = this.emission.cursor;
+        const emitted = this.emission.update(delta, this.time, ranges[0], ranges[1]);
+        this.markEmissionDirty(cursor, emitted, ranges[0].length);
+      }
+    }
+
+    this.simulation?.update(delta);
+    for (const subEmitter of this.subEmitters)
+      subEmitter.update();
+
+    for (const effect of [...this.effects])
+      effect.update();
+  }
+
+  /**
+   * Spawn a fire-and-forget effect, e.g. an explosion. Takes an
+   * EmitterInstance from an internal pool, fills its attributes and
+   * writes the current time into its `startTime` attribute. The
+   * instance is released back to the pool once the effect's duration
+   * elapsed.
+   * 
+   * ```
+   * const effect = emitter.spawn({
+   *   amount: 200,
+   *   duration: 1.5,
+   *   attributes: {
+   *     emitterPosition: [x, y, z],
+   *     rng: () => Math.random()
+   *   }
+   * });
+   * 
+   * effect.onComplete(() => console.log("done"));
+   * ```
+   * 
+   * @param {IEmitterEffectOptions} options - The options.
+   * @returns {EmitterEffect}
+   */
+  public spawn(options: IEmitterEffectOptions<TAttributes>): EmitterEffect<TAttributes> {
+    this.addParticleAttribute("startTime", 1);
+    const instance = this.instancePool.pop()?.recycle(options.amount) ?? new EmitterInstance(this, options.amount);
+    const effect = new EmitterEffect(this, instance, options.duration);
+
+    if (options.emission)
+      instance.setEmission(options.emission);
+
+    // The values are checked against TAttributes by the options' type
+    for (const [name, value] of Object.entries(options.attributes ?? {}) as [string, IEmitterAttributeValue<IEmitterAttribute>][])
+      instance.writeAttribute(name, value);
+    instance.writeAttribute("startTime", effect.startTime);
+    for (const [name, value] of Object.entries(options.uniforms ?? {}))
+      instance.setUniform(name, value);
+
+    this.effects.add(effect);
+    return effect;
+  }
+
+  /**
+   * Release an effect and return its EmitterInstance to the pool.
+   * Used internally.
+   * 
+   * @param {EmitterEffect} effect - The released effect.
+   * @returns {void}
+   */
+  public effectReleased(effect: EmitterEffect<TAttributes>): void {
+    if (!this.effects.delete(effect))
+      return;
+    effect.released = true;
+    effect.instance.dispose();
+    this.instancePool.push(effect.instance);
+  }
+
+  /**
+   * Get the `birthTime` and `lifetime` values of the particle slots the
+   * emitter emits into while it has no EmitterInstances.
+   * Used internally.
+   * 
+   * @returns {[Float32Array, Float32Array] | null}
+   */
+  protected getEmissionRange(): [Float32Array, Float32Array] | null {
+    const birthTime = this.geometry.getAttribute("birthTime") as THREE.BufferAttribute | undefined;
+    const lifetime = this.geometry.getAttribute("lifetime") as THREE.BufferAttribute | undefined;
+    if (!birthTime || !lifetime)
+      return null;
+
+    const amount = Math.min(this.particleAmount, this.maxParticles);
+    return [
+      (birthTime.array as Float32Array).subarray(0, amount),
+      (lifetime.array as Float32Array).subarray(0, amount),
+    ];
+  }
+
+  /**
+   * Copy another emitter into this one. The geometry and material are
+   * cloned, so the attributes and uniforms are separate while the
+   * renderer shares the shader program. EmitterInstances are re-created
+   * at the same particle slots and running effects are restarted.
+   * Sub-emitters spawning children on the source itself spawn them on
+   * this emitter instead. Event listeners, `onComplete` callbacks and
+   * collision callbacks aren't copied.
+   * 
+   * ```
+   * const explosion = new Emitter({ ... });
+   * const copy = new Emitter().copy(explosion);
+   * ```
+   * 
+   * @param {Emitter} source - The emitter to copy.
+   * @param {boolean} [recursive] - Whether to copy the children, see
+   *   `THREE.Object3D.copy()`.
+   * @returns {this}
+   */
+  public override copy(source: this, recursive?: boolean): this {
+    for (const subEmitter of this.subEmitters)
+      subEmitter.dispose();
+    this.subEmitters = [];
+    for (const effect of [...this.effects])
+      effect.cancel();
+    for (const instance of [...this.knownInstances])
+      instance.dispose();
+    this.instancePool = [];
+
+    const { geometry, material } = this;
+    super.copy(source, recursive);
+    geometry.dispose();
+    material.dispose();
+    this.geometry = source.geometry.clone();
+    this.material = source.material.clone();
+    this.material.onBeforeCompile = onBeforeCompile;
+    this.allocator = new EmitterAllocator(source.maxParticles);
+
+    // Textures are cloned with the uniforms
+    const atlas = (this.material.uniforms.curveAtlas as THREE.IUniform | undefined)?.value as unknown;
+    this.curveAtlas = atlas instanceof THREE.DataTexture ? atlas : null;
+    this.curves = { ...source.curves };
+    this.behaviors = source.behaviors.map((behavior) => behavior.type === "custom" && behavior.uniforms ?
+      { ...behavior, uniforms: Object.fromEntries(Object.keys(behavior.uniforms).map((name) => [name, this.material.uniforms[name]])) } :
+      behavior);
+    this.instanceUniforms = Object.fromEntries(Object.entries(source.instanceUniforms).map(([name, value]) => [name, [...value]]));
+    this.setBounds(source.bounds);
+    this.setSort(source.sort);
+    this.setSimulation(source.simulation?.toJSON() ?? null);
+
+    this.setLogger(source.logger);
+    this.setStrict(source.strict);
+    this.setDebug(source.debug);
+    this.setManager(source.manager);
+    this.setClock(source.clock);
+    this.timestamp = source.timestamp;
+    this.setTimeScale(source.timeScale);
+    this.setAutoGrow(source.autoGrow);
+    this.paused = source.paused;
+
+    const emission = source.emission?.toJSON() ?? null;
+    this.setEmission(emission && { ...emission, random: source.emission?.random?.clone() });
+    if (emission)
+      this.emission?.fromJSON(emission);
+
+    const instances = new Map<EmitterInstance<TAttributes>, EmitterInstance<TAttributes>>();
+    for (const instance of source.knownInstances)
+      instances.set(instance, new EmitterInstance(this, instance.particleAmount, instance.offset).copy(instance));
+    for (const effect of source.effects) {
+      const instance = instances.get(effect.instance);
+      if (!instance)
+        continue;
+      const copy = new EmitterEffect(this, instance, effect.duration);
+      copy.startTime = effect.startTime;
+      this.effects.add(copy);
+    }
+
+    // Added after the EmitterInstances, sub-emitters may spawn on this emitter
+    for (const subEmitter of source.subEmitters)
+      this.addSubEmitter({ ...subEmitter.options, emitter: subEmitter.options.emitter === source ? this : subEmitter.options.emitter });
+
+    // Set after the EmitterInstances, their start frames are part of the geometry
+    const flipbookTexture = (this.material.uniforms.flipbookTexture as THREE.IUniform | undefined)?.value as unknown;
+    this.flipbook = source.flipbook && flipbookTexture instanceof THREE.Texture ?
+      { ...source.flipbook, texture: flipbookTexture, random: source.flipbook.random?.clone() ?? null } :
+      null;
+
+    this.geometry.instanceCount = source.geometry.instanceCount;
+    this.boundsNeedUpdate = true;
+    this.setAutoUpdate(source.autoUpdate);
+    return this;
+  }
+
+  /**
+   * Create a copy of the emitter with separate attributes, uniforms and
+   * EmitterInstances, e.g. to stamp out prefab effects. See `copy()`.
+   * 
+   * ```
+   * const prefab = new Emitter({ ... });
+   * 
+   * for (const position of impacts) {
+   *   const impact = prefab.clone();
+   *   impact.position.copy(position);
+   *   scene.add(impact);
+   * }
+   * ```
+   * 
+   * @param {boolean} [recursive] - Whether to clone the children, see
+   *   `THREE.Object3D.clone()`.
+   * @returns {this}
+   */
+  public override clone(recursive?: boolean): this {
+    return new (this.constructor as new () => this)().copy(this, recursive);
+  }
+
+  /**
+   * Serialize the emitter, its EmitterInstances and running effects
+   * into the THREE JSON object format. Shaders, uniforms, the attribute
+   * layout and values and the curve atlas are written by THREE as part
+   * of the geometry and material, the remaining state is stored as
+   * `object.emitter`, see `IEmitterJSON`. Load it via `Emitter.fromJSON()`
+   * or an `EmitterObjectLoader`.
+   * 
+   * ```
+   * const json = JSON.stringify(emitter.toJSON());
+   * const copy = Emitter.fromJSON(JSON.parse(json));
+   * ```
+   * 
+   * @param {THREE.JSONMeta} [meta] - Used internally by THREE when
+   *   serializing parent objects.
+   * @returns {IEmitterObjectJSON}
+   */
+  public override toJSON(meta?: THREE.JSONMeta): IEmitterObjectJSON {
+    const data = super.toJSON(meta) as IEmitterObjectJSON;
+    const effects = new Map([...this.effects].map((effect) => [effect.instance, effect]));
+
+    const instances = [...this.knownInstances].map((instance): IEmitterInstanceJSON => {
+      const effect = effects.get(instance);
+      return effect ?
+        { ...instance.toJSON(), effect: { duration: effect.duration, startTime: effect.startTime } } :
+        instance.toJSON();
+    });
+
+    // Functions can't be serialized, sample them into keyframes instead
+    const curves = Object.fromEntries(Object.entries(this.curves).map(([name, curve]) => [
+      name,
+      typeof curve === "function" ?
+        Array.from({ length: CURVE_JSON_SAMPLES }, (_, i) => {
+          const t = i / (CURVE_JSON_SAMPLES - 1);
+          return [t, evaluateEmitterCurve(curve, t)];
+        }) :
+        curve,
+    ])) as Record<string, IEmitterCurve>;
+
+    // Uniform values of custom behaviors are part of the material
+    const behaviors = this.behaviors.map((behavior) => behavior.type === "custom" && behavior.uniforms ?
+      { ...behavior, uniforms: Object.fromEntries(Object.keys(behavior.uniforms).map((name) => [name, { value: null }])) } :
+      behavior);
+
+    data.object.emitter = {
+      version: EMITTER_JSON_VERSION,
+      maxParticles: this.maxParticles,
+      particleAmount: this.particleAmount,
+      autoUpdate: this.autoUpdate,
+      autoGrow: this.autoGrow,
+      timeScale: this.timeScale,
+      paused: this.paused,
+      emission: this.emission?.toJSON() ?? null,
+      behaviors,
+      curves,
+      instanceUniforms: this.instanceUniforms,
+      bounds: this.bounds,
+      flipbook: this.flipbook && {
+        rows: this.flipbook.rows,
+        columns: this.flipbook.columns,
+        frames: this.flipbook.frames,
+        fps: this.flipbook.fps,
+        randomStart: this.flipbook.randomStart,
+        blend: this.flipbook.blend,
+        loop: this.flipbook.loop,
+      },
+      simulation: this.simulation?.toJSON() ?? null,
+      instances,
+    };
+    return data;
+  }
+
+  /**
+   * Restore the emitter state serialized by `toJSON()` after its
+   * geometry and material were loaded. Re-creates the EmitterInstances
+   * at their original particle slots and restarts running effects.
+   * Used internally by `EmitterObjectLoader`.
+   * 
+   * @param {IEmitterJSON} json - The serialized emitter state.
+   * @returns {this}
+   */
+  public restore(json: IEmitterJSON): this {
+    this.material.onBeforeCompile = onBeforeCompile;
+    const atlas = (this.material.uniforms.curveAtlas as THREE.IUniform | undefined)?.value as unknown;
+    this.curveAtlas = atlas instanceof THREE.DataTexture ? atlas : null;
+    this.curves = json.curves;
+    this.behaviors = json.behaviors.map((behavior) => behavior.type === "custom" && behavior.uniforms ?
+      { ...behavior, uniforms: Object.fromEntries(Object.keys(behavior.uniforms).map((name) => [name, this.material.uniforms[name]])) } :
+      behavior);
+
+    // The attribute values are part of the geometry
+    this.instanceUniforms = json.instanceUniforms ?? {};
+    this.setBounds(json.bounds ?? null);
+    this.setSimulation(json.simulation ?? null);
+
+    this.setTimeScale(json.timeScale);
+    this.setAutoGrow(json.autoGrow);
+    this.paused = json.paused;
+    // The instanceCount isn't part of THREE's geometry JSON
+    this.particleAmount = json.particleAmount ?? 0;
+    this.setEmission(json.emission);
+    if (json.emission)
+      this.emission?.fromJSON(json.emission);
+
+    for (const instanceJSON of json.instances) {
+      const instance = new EmitterInstance(this, instanceJSON.particleAmount, instanceJSON.offset)
+        .setSpeed(instanceJSON.speed)
+        .setEmission(instanceJSON.emission);
+      if (instanceJSON.emission)
+        instance.emission?.fromJSON(instanceJSON.emission);
+      for (const [name, value] of Object.entries(instanceJSON.uniforms ?? {}))
+        instance.setUniform(name, value);
+      if (instanceJSON.bounds)
+        instance.setBounds(new THREE.Box3().setFromArray(instanceJSON.bounds));
+      if (instanceJSON.paused)
+        instance.pause();
+      instance.seek(instanceJSON.time);
+
+      if (instanceJSON.effect) {
+        const effect = new EmitterEffect(this, instance, instanceJSON.effect.duration);
+        effect.startTime = instanceJSON.effect.startTime;
+        this.effects.add(effect);
+      }
+    }
+
+    // Fog isn't part of THREE's material JSON
+    if (!(this.material instanceof THREE.RawShaderMaterial))
+      this.material.fog = "fogColor" in this.material.uniforms;
+
+    // The flipbook texture and start frames are part of the material and geometry
+    const flipbookTexture = (this.material.uniforms.flipbookTexture as THREE.IUniform | undefined)?.value as unknown;
+    if (json.flipbook && flipbookTexture instanceof THREE.Texture)
+      this.flipbook = { ...json.flipbook, texture: flipbookTexture, random: null };
+
+    this.setAutoUpdate(json.autoUpdate);
+    return this;
+  }
+
+  /**
+   * Create an emitter from JSON written by `toJSON()`. Use an
+   * `EmitterObjectLoader` to load scenes containing emitters.
+   * 
+   * ```
+   * const emitter = Emitter.fromJSON(await (await fetch("fire.json")).json());
+   * scene.add(emitter);
+   * ```
+   * 
+   * @param {unknown} json - The JSON.
+   * @returns {Emitter}
+   */
+  public static fromJSON(json: unknown): Emitter {
+    // Let THREE only parse objects which look like an emitter
+    const data = json as { object?: { type?: unknown, emitter?: unknown } } | null;
+    if (typeof data !== "object" || data === null || typeof data.object !== "object" ||
+      data.object.type !== "Emitter" || typeof data.object.emitter !== "object" || data.object.emitter === null)
+      throw new EmitterError("INVALID_JSON", "The JSON doesn't describe an Emitter.");
+
+    const object = new EmitterObjectLoader().parse(json);
+    if (!isEmitter(object))
+      throw new EmitterError("INVALID_JSON", "The JSON doesn't describe an Emitter.");
+    return object;
   }
 
   /**
@@ -527,17 +2914,41 @@ export default class Emitter extends THREE.Mesh<THREE.InstancedBufferGeometry, T
    * @returns {void}
    */
   public dispose(): void {
+    for (const subEmitter of this.subEmitters)
+      subEmitter.dispose();
+    this.subEmitters = [];
+    for (const effect of [...this.effects])
+      effect.cancel();
+    this.instancePool = [];
+    this.manager.unregister(this);
+    this.curveAtlas?.dispose();
     this.material.dispose();
     this.geometry.dispose();
+    this.dispatchEvent({ type: "disposed" });
   }
 
   /**
-   * Interface for the internal material's uniforms.
+   * Interface for the internal material's uniforms, keyed by
+   * `TUniforms`.
    * 
-   * @type {Record<string, THREE.IUniform>}
+   * @type {TUniforms & IEmitterBuiltinUniforms}
+   */
+  get uniforms(): TUniforms & IEmitterBuiltinUniforms {
+    return this.material.uniforms as TUniforms & IEmitterBuiltinUniforms;
+  }
+
+  /**
+   * Interface for the `time` uniform in seconds.
+   */
+  get time(): number {
+    return this.material.uniforms.time.value as number;
+  }
+
+  /**
+   * Interface for the `time` uniform in seconds.
    */
-  get uniforms(): Record<string, THREE.IUniform> {
-    return this.material.uniforms;
+  set time(time: number) {
+    this.material.uniforms.time.value = time;
   }
 
   /**
@@ -549,6 +2960,21 @@ export default class Emitter extends THREE.Mesh<THREE.InstancedBufferGeometry, T
     return this.geometry.attributes;
   }
 
+  /**
+   * The maximum number of particles.
+   */
+  get maxParticles(): number {
+    return this.allocator.capacity;
+  }
+
+  /**
+   * The maximum number of particles. Setting it resizes the emitter,
+   * see `resize()`.
+   */
+  set maxParticles(maxParticles: number) {
+    this.resize(maxParticles);
+  }
+
   /**
    * Interface for the internal geometry's instanceCount.
    */
@@ -561,5 +2987,6 @@ export default class Emitter extends THREE.Mesh<THREE.InstancedBufferGeometry, T
    */
   set particleAmount(amount: number) {
     this.geometry.instanceCount = amount;
+    this.boundsNeedUpdate = true;
   }
 }
@@ -0,0 +1,219 @@
+/**
+ * A free range of particle slots.
+ */
+export interface IEmitterRange {
+
+  /**
+   * The index of the first particle slot in the range.
+   */
+  offset: number;
+
+  /**
+   * The amount of particle slots in the range.
+   */
+  amount: number;
+}
+
+/**
+ * A first-fit free-list allocator for particle slots.
+ * Used internally by `Emitter` to hand out contiguous ranges of its
+ * instanced attributes to EmitterInstances. Freed ranges are merged
+ * with adjacent free ranges and re-used by later allocations, so
+ * allocating and freeing never touches the attribute buffers.
+ *
+ * ```
+ * const allocator = new EmitterAllocator(1000);
+ * const a = allocator.allocate(100); // 0
+ * const b = allocator.allocate(200); // 100
+ * allocator.free(a, 100);
+ * const c = allocator.allocate(50); // 0
+ * console.log(allocator.end); // 300
+ * ```
+ */
+export default class EmitterAllocator {
+
+  /**
+   * The total amount of particle slots.
+   */
+  public capacity: number;
+
+  /**
+   * The free ranges, sorted by offset. Adjacent ranges are always
+   * merged.
+   */
+  public freeRanges: IEmitterRange[] = [];
+
+  /**
+   * Create an EmitterAllocator.
+   *
+   * @param {number} capacity - The total amount of particle slots.
+   */
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.reset();
+  }
+
+  /**
+   * Allocate a contiguous range of particle slots.
+   *
+   * @param {number} amount - The amount of particle slots.
+   * @returns {number} The offset of the allocated range or `-1` if
+   *   there's no free range large enough.
+   */
+  public allocate(amount: number): number {
+    if (amount <= 0)
+      return -1;
+
+    for (let i = 0; i < this.freeRanges.length; i++) {
+      const range = this.freeRanges[i];
+      if (range.amount < amount)
+        continue;
+
+      const offset = range.offset;
+      range.offset += amount;
+      range.amount -= amount;
+      if (range.amount === 0)
+        this.freeRanges.splice(i, 1);
+      return offset;
+    }
+    return -1;
+  }
+
+  /**
+   * Allocate a specific range of particle slots, e.g. to restore a
+   * serialized layout.
+   *
+   * @param {number} offset - The offset of the range.
+   * @param {number} amount - The amount of particle slots.
+   * @returns {boolean} Whether the range was free and got allocated.
+   */
+  public allocateAt(offset: number, amount: number): boolean {
+    if (amount <= 0)
+      return false;
+
+    const index = this.freeRanges.findIndex((range) => range.offset <= offset && range.offset + range.amount >= offset + amount);
+    if (index === -1)
+      return false;
+
+    const range = this.freeRanges[index];
+    const tail = { offset: offset + amount, amount: range.offset + range.amount - offset - amount };
+    range.amount = offset - range.offset;
+
+    const replacement = [range, tail].filter((r) => r.amount > 0);
+    this.freeRanges.splice(index, 1, ...replacement);
+    return true;
+  }
+
+  /**
+   * Release a previously allocated range of particle slots.
+   *
+   * @param {number} offset - The offset of the range.
+   * @param {number} amount - The amount of particle slots.
+   * @returns {void}
+   */
+  public free(offset: number, amount: number): void {
+    if (amount <= 0)
+      return;
+
+    // Binary search for the first free range after the released one
+    let low = 0;
+    let high = this.freeRanges.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.freeRanges[mid].offset < offset)
+        low = mid + 1;
+      else
+        high = mid;
+    }
+
+    const prev = low > 0 ? this.freeRanges[low - 1] : undefined;
+    const next = low < this.freeRanges.length ? this.freeRanges[low] : undefined;
+    const mergesPrev = prev !== undefined && prev.offset + prev.amount === offset;
+    const mergesNext = next !== undefined && offset + amount === next.offset;
+
+    if (prev && next && mergesPrev && mergesNext) {
+      prev.amount += amount + next.amount;
+      this.freeRanges.splice(low, 1);
+    }
+    else if (prev && mergesPrev) {
+      prev.amount += amount;
+    }
+    else if (next && mergesNext) {
+      next.offset = offset;
+      next.amount += amount;
+    }
+    else {
+      this.freeRanges.splice(low, 0, { offset, amount });
+    }
+  }
+
+  /**
+   * Mark all particle slots as free.
+   *
+   * @returns {void}
+   */
+  public reset(): void {
+    this.freeRanges = this.capacity > 0 ? [{ offset: 0, amount: this.capacity }] : [];
+  }
+
+  /**
+   * Change the total amount of particle slots. Growing appends free
+   * slots, shrinking only removes free slots at the end.
+   *
+   * @param {number} capacity - The new total amount of particle slots.
+   * @returns {void}
+   */
+  public setCapacity(capacity: number): void {
+    capacity = Math.max(capacity, this.end);
+    const last = this.freeRanges.at(-1);
+    const trailing = last && last.offset + last.amount === this.capacity ? last : undefined;
+
+    if (trailing) {
+      trailing.amount = capacity - trailing.offset;
+      if (trailing.amount === 0)
+        this.freeRanges.pop();
+    }
+    else if (capacity > this.capacity) {
+      this.freeRanges.push({ offset: this.capacity, amount: capacity - this.capacity });
+    }
+    this.capacity = capacity;
+  }
+
+  /**
+   * The end of the last allocated range. All particle slots after
+   * this index are free.
+   */
+  get end(): number {
+    const last = this.freeRanges.at(-1);
+    return last && last.offset + last.amount === this.capacity ? last.offset : this.capacity;
+  }
+
+  /**
+   * The amount of free particle slots.
+   */
+  get freeAmount(): number {
+    let amount = 0;
+    for (const range of this.freeRanges)
+      amount += range.amount;
+    return amount;
+  }
+
+  /**
+   * The amount of particle slots in the largest free range.
+   */
+  get largestFreeRange(): number {
+    let amount = 0;
+    for (const range of this.freeRanges)
+      amount = Math.max(amount, range.amount);
+    return amount;
+  }
+
+  /**
+   * The amount of free particle slots below `end`, i.e. slots that
+   * are drawn but don't belong to any range. Can be removed by
+   * compacting the Emitter.
+   */
+  get holes(): number {
+    return this.freeAmount - (this.capacity - this.end);
+  }
+}
@@ -0,0 +1,153 @@
+import * as THREE from "three";
+import type { Vec3, Vec4 } from "./EmitterBehaviors.js";
+import EmitterError, { type IEmitterErrorContext } from "./EmitterError.js";
+import type Emitter from "./Emitter.js";
+
+/**
+ * The attributes of an `Emitter`, keyed by name.
+ */
+export type IEmitterAttributes = Record<string, THREE.BufferAttribute | THREE.InstancedBufferAttribute>;
+
+/**
+ * The uniforms of an `Emitter`, keyed by name.
+ */
+export type IEmitterUniforms = Record<string, THREE.IUniform>;
+
+/**
+ * An attribute whose item size is known at compile time, see
+ * `createEmitterAttribute()`.
+ */
+export type IEmitterAttribute<TItemSize extends number = number> =
+  THREE.InstancedBufferAttribute & { itemSize: TItemSize };
+
+/**
+ * The attributes created by the emitter itself, e.g. by the emission
+ * model, EmitterInstances and effects.
+ */
+export interface IEmitterBuiltinAttributes {
+  birthTime: IEmitterAttribute<1>;
+  lifetime: IEmitterAttribute<1>;
+  instancePlayback: IEmitterAttribute<2>;
+  instanceActive: IEmitterAttribute<1>;
+  startTime: IEmitterAttribute<1>;
+}
+
+/**
+ * The uniforms created by the emitter itself.
+ */
+export interface IEmitterBuiltinUniforms {
+  time: THREE.IUniform<number>;
+}
+
+/**
+ * The names of the attributes of an emitter known at compile time: the
+ * attributes `TAttributes` and the built-in attributes.
+ */
+export type IEmitterKnownAttributeName<TAttributes extends IEmitterAttributes> =
+  keyof (TAttributes & IEmitterBuiltinAttributes) & string;
+
+/**
+ * The names of all attributes of an emitter with the attributes
+ * `TAttributes`. Any other name is accepted as well, e.g. for
+ * attributes added by behaviors or `addParticleAttribute()`, and only
+ * checked at runtime.
+ */
+export type IEmitterAttributeName<TAttributes extends IEmitterAttributes> =
+  IEmitterKnownAttributeName<TAttributes> | (string & Record<never, never>);
+
+/**
+ * A single item of an attribute with the item size `TItemSize`, e.g.
+ * a `Vec3` for an item size of `3`. Any array if the item size isn't
+ * known at compile time.
+ */
+export type IEmitterAttributeItem<TItemSize extends number> =
+  number extends TItemSize ? number[] :
+  TItemSize extends 1 ? [number] :
+  TItemSize extends 2 ? [number, number] :
+  TItemSize extends 3 ? Vec3 :
+  TItemSize extends 4 ? Vec4 :
+  number[];
+
+/**
+ * The values accepted by `fillAttribute()` for an attribute: a single
+ * float for all components, one item for all items or a function
+ * returning a float per component or an item per item.
+ */
+export type IEmitterAttributeValue<TAttribute> =
+  TAttribute extends { itemSize: infer TItemSize extends number } ?
+    number | IEmitterAttributeItem<TItemSize> | ((index: number) => number | IEmitterAttributeItem<TItemSize>) :
+    never;
+
+/**
+ * The value accepted by `fillAttribute()` for the attribute `TName` of
+ * an emitter with the attributes `TAttributes`. Attributes unknown at
+ * compile time accept items of any size.
+ */
+export type IEmitterAttributeValueOf<TAttributes extends IEmitterAttributes, TName extends IEmitterAttributeName<TAttributes>> =
+  IEmitterAttributeValue<(TAttributes & IEmitterBuiltinAttributes & Record<string, IEmitterAttribute>)[TName]>;
+
+/**
+ * Create a per particle attribute whose item size is known at compile
+ * time, so `fillAttribute()` checks the arity of values.
+ *
+ * ```
+ * const emitter = new Emitter({
+ *   maxParticles: 1000,
+ *   attributes: {
+ *     emitterPosition: createEmitterAttribute(1000, 3),
+ *   }
+ * });
+ *
+ * emitter.fillAttribute("emitterPosition", [0, 1, 0]);
+ * emitter.fillAttribute("emitterPosition", [0, 1]); // Type error
+ * ```
+ *
+ * @param {number} maxParticles - The amount of particles.
+ * @param {number} itemSize - The amount of components per particle.
+ * @returns {IEmitterAttribute}
+ */
+export function createEmitterAttribute<TItemSize extends number>(maxParticles: number, itemSize: TItemSize): IEmitterAttribute<TItemSize> {
+  return new THREE.InstancedBufferAttribute(new Float32Array(maxParticles * itemSize), itemSize) as IEmitterAttribute<TItemSize>;
+}
+
+/**
+ * Check a value passed to `fillAttribute()` against the item size of
+ * the attribute and report a mismatch via `Emitter.report()`.
+ * Used internally.
+ *
+ * @param {number[]} item - The item.
+ * @param {number} itemSize - The item size of the attribute.
+ * @param {Emitter} emitter - The emitter reporting the mismatch.
+ * @param {IEmitterErrorContext} context - The objects involved, used in
+ *   the error.
+ * @returns {boolean} Whether the item matches the item size.
+ */
+export function validateEmitterAttributeItem(item: number[], itemSize: number, emitter: Pick<Emitter, "report">, context: IEmitterErrorContext): boolean {
+  if (item.length === itemSize)
+    return true;
+  emitter.report(new EmitterError("ATTRIBUTE_ITEM_SIZE", `Expected ${String(itemSize)} values per item, got ${String(item.length)}.`, context));
+  return false;
+}
+
+/**
+ * The values accepted by `EmitterInstance.setUniform()`. Vectors and
+ * colors are written as their components, e.g. `THREE.Color` as
+ * `[r, g, b]`.
+ */
+export type IEmitterInstanceUniformValue =
+  number | number[] | THREE.Vector2 | THREE.Vector3 | THREE.Vector4 | THREE.Color;
+
+/**
+ * Convert a per-instance uniform value to the item written to its
+ * backing attribute. Used internally.
+ *
+ * @param {IEmitterInstanceUniformValue} value - The value.
+ * @returns {number[]}
+ */
+export function toEmitterUniformItem(value: IEmitterInstanceUniformValue): number[] {
+  if (typeof value === "number")
+    return [value];
+  if (Array.isArray(value))
+    return value.slice();
+  return value.toArray();
+}
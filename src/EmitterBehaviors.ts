@@ -0,0 +1,595 @@
+import * as THREE from "three";
+import { emitterCurveDefine } from "./EmitterCurves.js";
+
+/**
+ * A 3D vector, e.g. `[0, -9.81, 0]`.
+ */
+export type Vec3 = [number, number, number];
+
+/**
+ * An RGBA color, e.g. `[1, 0.5, 0, 1]`.
+ */
+export type Vec4 = [number, number, number, number];
+
+/**
+ * Offsets particles by a constant value or a per-particle `vec3`
+ * attribute. Applied before motion is integrated.
+ * Uniforms: `position{index}Value`.
+ */
+export interface IPositionBehavior {
+  type: "position";
+
+  /**
+   * A constant offset.
+   */
+  value?: Vec3;
+
+  /**
+   * The name of a per-particle `vec3` attribute. Created if it doesn't
+   * exist.
+   */
+  attribute?: string;
+}
+
+/**
+ * Sets the initial velocity of particles from a constant value or a
+ * per-particle `vec3` attribute.
+ * Uniforms: `velocity{index}Value`.
+ */
+export interface IVelocityBehavior {
+  type: "velocity";
+
+  /**
+   * A constant velocity in units per second.
+   */
+  value?: Vec3;
+
+  /**
+   * The name of a per-particle `vec3` attribute. Created if it doesn't
+   * exist.
+   */
+  attribute?: string;
+}
+
+/**
+ * Accelerates particles constantly.
+ * Uniforms: `gravity{index}Value`.
+ */
+export interface IGravityBehavior {
+  type: "gravity";
+
+  /**
+   * The acceleration in units per second squared.
+   */
+  value: Vec3;
+}
+
+/**
+ * Slows particles down proportionally to their velocity.
+ * Uniforms: `drag{index}Value`.
+ */
+export interface IDragBehavior {
+  type: "drag";
+
+  /**
+   * The drag coefficient. Higher values slow particles down faster.
+   */
+  value: number;
+}
+
+/**
+ * Rotates particles around an axis through the emitter's origin.
+ * Uniforms: `orbit{index}Speed` (radians per second) and
+ * `orbit{index}Axis`.
+ */
+export interface IOrbitBehavior {
+  type: "orbit";
+
+  /**
+   * The angular speed in radians per second.
+   */
+  speed: number;
+
+  /**
+   * The rotation axis. Default is `[0, 1, 0]`.
+   */
+  axis?: Vec3;
+}
+
+/**
+ * Displaces particles by animated 3D noise.
+ * Uniforms: `noise{index}Strength`, `noise{index}Frequency` and
+ * `noise{index}Speed`.
+ */
+export interface INoiseBehavior {
+  type: "noise";
+
+  /**
+   * The maximum displacement.
+   */
+  strength: number;
+
+  /**
+   * The spatial frequency of the noise. Default is `1`.
+   */
+  frequency?: number;
+
+  /**
+   * The speed at which the noise evolves. Default is `1`.
+   */
+  speed?: number;
+}
+
+/**
+ * Scales particles over their normalized age.
+ * Uniforms: `sizeOverLife{index}From` and `sizeOverLife{index}To`.
+ */
+export interface ISizeOverLifeBehavior {
+  type: "sizeOverLife";
+
+  /**
+   * The scale at birth.
+   */
+  from: number;
+
+  /**
+   * The scale at death.
+   */
+  to: number;
+}
+
+/**
+ * Tints particles over their normalized age.
+ * Uniforms: `colorOverLife{index}From` and `colorOverLife{index}To`.
+ */
+export interface IColorOverLifeBehavior {
+  type: "colorOverLife";
+
+  /**
+   * The color at birth.
+   */
+  from: Vec4;
+
+  /**
+   * The color at death.
+   */
+  to: Vec4;
+}
+
+/**
+ * Tints particles by a curve of the emitter's curve atlas over their
+ * normalized age, see `Emitter.setCurves()`.
+ */
+export interface IColorCurveBehavior {
+  type: "colorCurve";
+
+  /**
+   * The name of the curve.
+   */
+  curve: string;
+}
+
+/**
+ * Fades particles by a curve of the emitter's curve atlas over their
+ * normalized age, see `Emitter.setCurves()`.
+ */
+export interface IAlphaCurveBehavior {
+  type: "alphaCurve";
+
+  /**
+   * The name of the curve.
+   */
+  curve: string;
+}
+
+/**
+ * Scales particles by a curve of the emitter's curve atlas over their
+ * normalized age, see `Emitter.setCurves()`.
+ */
+export interface ISizeCurveBehavior {
+  type: "sizeCurve";
+
+  /**
+   * The name of the curve.
+   */
+  curve: string;
+}
+
+/**
+ * Rotates the particle geometry to always face the camera.
+ */
+export interface IBillboardBehavior {
+  type: "billboard";
+}
+
+/**
+ * Injects custom GLSL. Uniforms and attributes are declared
+ * automatically. `vertex` runs after motion is integrated and can read
+ * `t` (seconds since birth) and `age` (normalized age) and modify
+ * `offset`, `size` and `color`. `fragment` can read `age` and `vUv` and
+ * modify `color`.
+ *
+ * ```
+ * {
+ *   type: "custom",
+ *   uniforms: { wobble: { value: 0.5 } },
+ *   attributes: { rng: 1 },
+ *   vertex: "offset.x += sin(t * 10.0 + rng) * wobble;",
+ *   fragment: "color.a *= 1.0 - age;"
+ * }
+ * ```
+ */
+export interface ICustomBehavior {
+  type: "custom";
+
+  /**
+   * Uniforms declared in both shaders.
+   */
+  uniforms?: Record<string, THREE.IUniform>;
+
+  /**
+   * Per-particle attributes and their item sizes. Created if they don't
+   * exist.
+   */
+  attributes?: Record<string, number>;
+
+  /**
+   * GLSL declarations added to the vertex shader, e.g. functions.
+   */
+  vertexDeclarations?: string;
+
+  /**
+   * GLSL statements run in the vertex shader's `main()`.
+   */
+  vertex?: string;
+
+  /**
+   * GLSL declarations added to the fragment shader, e.g. functions.
+   */
+  fragmentDeclarations?: string;
+
+  /**
+   * GLSL statements run in the fragment shader's `main()`.
+   */
+  fragment?: string;
+}
+
+/**
+ * A declarative behavior compiled into the emitter's shaders.
+ * See `IEmitterOptions.behaviors`.
+ */
+export type IEmitterBehavior =
+  | IPositionBehavior
+  | IVelocityBehavior
+  | IGravityBehavior
+  | IDragBehavior
+  | IOrbitBehavior
+  | INoiseBehavior
+  | ISizeOverLifeBehavior
+  | IColorOverLifeBehavior
+  | IColorCurveBehavior
+  | IAlphaCurveBehavior
+  | ISizeCurveBehavior
+  | IBillboardBehavior
+  | ICustomBehavior;
+
+/**
+ * A shader program compiled from behaviors.
+ */
+export interface IEmitterProgram {
+
+  /**
+   * The GLSL vertex shader.
+   */
+  vertexShader: string;
+
+  /**
+   * The GLSL fragment shader.
+   */
+  fragmentShader: string;
+
+  /**
+   * The uniforms used by the behaviors.
+   */
+  uniforms: Record<string, THREE.IUniform>;
+
+  /**
+   * The per-particle attributes used by the behaviors and their item
+   * sizes.
+   */
+  attributes: Record<string, number>;
+}
+
+/**
+ * Get the GLSL type of a uniform value.
+ *
+ * @param {unknown} value - The uniform value.
+ * @returns {string}
+ */
+function glslUniformType(value: unknown): string {
+  if (value instanceof THREE.Texture)
+    return "sampler2D";
+  if (value instanceof THREE.Vector2)
+    return "vec2";
+  if (value instanceof THREE.Vector3 || value instanceof THREE.Color)
+    return "vec3";
+  if (value instanceof THREE.Vector4)
+    return "vec4";
+  if (value instanceof THREE.Matrix3)
+    return "mat3";
+  if (value instanceof THREE.Matrix4)
+    return "mat4";
+  if (typeof value === "boolean")
+    return "bool";
+  return "float";
+}
+
+/**
+ * Get the GLSL type of an attribute.
+ *
+ * @param {number} itemSize - The item size of the attribute.
+ * @returns {string}
+ */
+function glslAttributeType(itemSize: number): string {
+  return itemSize === 1 ? "float" : `vec${String(itemSize)}`;
+}
+
+/**
+ * Hash based 3D value noise returning a vector in [-1, 1].
+ */
+const noiseFunctions = /* glsl */`
+  float emitterHash(vec3 p) {
+    return fract(sin(dot(p, vec3(127.1, 311.7, 74.7))) * 43758.5453);
+  }
+
+  float emitterNoise(vec3 p) {
+    vec3 i = floor(p);
+    vec3 f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+    return mix(
+      mix(mix(emitterHash(i), emitterHash(i + vec3(1, 0, 0)), f.x),
+          mix(emitterHash(i + vec3(0, 1, 0)), emitterHash(i + vec3(1, 1, 0)), f.x), f.y),
+      mix(mix(emitterHash(i + vec3(0, 0, 1)), emitterHash(i + vec3(1, 0, 1)), f.x),
+          mix(emitterHash(i + vec3(0, 1, 1)), emitterHash(i + vec3(1, 1, 1)), f.x), f.y),
+      f.z) * 2.0 - 1.0;
+  }
+
+  vec3 emitterNoise3(vec3 p) {
+    return vec3(
+      emitterNoise(p),
+      emitterNoise(p + vec3(31.416, 47.853, 12.679)),
+      emitterNoise(p + vec3(-17.213, 93.989, -61.371))
+    );
+  }
+`;
+
+/**
+ * Compile behaviors into a shader program.
+ * The generated vertex shader provides the following variables to the
+ * behaviors: `particleTime`, `t` (seconds since birth), `age`
+ * (normalized age), `offset`, `velocity`, `acceleration`, `drag`,
+ * `size` and `color`. It respects the `EMITTER_INSTANCES` and
+ * `EMITTER_LIFECYCLE` defines maintained by `Emitter`.
+ *
+ * Shaders generated for a `THREE.ShaderMaterial` rely on the built-ins
+ * declared by THREE and apply scene fog, clipping planes, the
+ * logarithmic depth buffer and tone mapping.
+ *
+ * ```
+ * const program = compileEmitterBehaviors([
+ *   { type: "velocity", attribute: "initialVelocity" },
+ *   { type: "gravity", value: [0, -9.81, 0] },
+ *   { type: "billboard" },
+ * ]);
+ * ```
+ *
+ * @param {IEmitterBehavior[]} behaviors - The behaviors.
+ * @param {boolean} raw - Generate shaders for a `THREE.RawShaderMaterial`
+ *   instead of a `THREE.ShaderMaterial`. Default is `true`.
+ * @returns {IEmitterProgram}
+ */
+export function compileEmitterBehaviors(behaviors: IEmitterBehavior[], raw: boolean = true): IEmitterProgram {
+  const uniforms: Record<string, THREE.IUniform> = {};
+  const attributes: Record<string, number> = {};
+  const vertexDeclarations: string[] = [];
+  const fragmentDeclarations: string[] = [];
+  const init: string[] = [];
+  const vertex: string[] = [];
+  const fragment: string[] = [];
+  let billboard = false;
+  let noise = false;
+  let curves = false;
+
+  const uniform = (name: string, value: unknown): string => {
+    uniforms[name] = { value };
+    return name;
+  };
+  const vec3 = (value: Vec3): THREE.Vector3 => new THREE.Vector3(...value);
+  const vec4 = (value: Vec4): THREE.Vector4 => new THREE.Vector4(...value);
+
+  for (const [index, behavior] of behaviors.entries()) {
+    const prefix = `${behavior.type}${String(index)}`;
+    switch (behavior.type) {
+      case "position":
+      case "velocity": {
+        const target = behavior.type === "position" ? "offset" : "velocity";
+        if (behavior.attribute) {
+          attributes[behavior.attribute] = 3;
+          init.push(`${target} += ${behavior.attribute};`);
+        }
+        if (behavior.value)
+          init.push(`${target} += ${uniform(`${prefix}Value`, vec3(behavior.value))};`);
+        break;
+      }
+      case "gravity":
+        init.push(`acceleration += ${uniform(`${prefix}Value`, vec3(behavior.value))};`);
+        break;
+      case "drag":
+        init.push(`drag += ${uniform(`${prefix}Value`, behavior.value)};`);
+        break;
+      case "orbit": {
+        const speed = uniform(`${prefix}Speed`, behavior.speed);
+        const axis = uniform(`${prefix}Axis`, vec3(behavior.axis ?? [0, 1, 0]));
+        vertex.push(`{
+          vec3 k = normalize(${axis});
+          float a = ${speed} * t;
+          offset = offset * cos(a) + cross(k, offset) * sin(a) + k * dot(k, offset) * (1.0 - cos(a));
+        }`);
+        break;
+      }
+      case "noise": {
+        noise = true;
+        const strength = uniform(`${prefix}Strength`, behavior.strength);
+        const frequency = uniform(`${prefix}Frequency`, behavior.frequency ?? 1);
+        const speed = uniform(`${prefix}Speed`, behavior.speed ?? 1);
+        vertex.push(`offset += emitterNoise3(offset * ${frequency} + vec3(particleTime * ${speed})) * ${strength};`);
+        break;
+      }
+      case "sizeOverLife":
+        vertex.push(`size *= mix(${uniform(`${prefix}From`, behavior.from)}, ${uniform(`${prefix}To`, behavior.to)}, age);`);
+        break;
+      case "colorOverLife":
+        vertex.push(`color *= mix(${uniform(`${prefix}From`, vec4(behavior.from))}, ${uniform(`${prefix}To`, vec4(behavior.to))}, age);`);
+        break;
+      case "colorCurve":
+        curves = true;
+        vertex.push(`color *= sampleCurve(${emitterCurveDefine(behavior.curve)}, age);`);
+        break;
+      case "alphaCurve":
+        curves = true;
+        vertex.push(`color.a *= sampleCurve(${emitterCurveDefine(behavior.curve)}, age).a;`);
+        break;
+      case "sizeCurve":
+        curves = true;
+        vertex.push(`size *= sampleCurve(${emitterCurveDefine(behavior.curve)}, age).x;`);
+        break;
+      case "billboard":
+        billboard = true;
+        break;
+      case "custom":
+        Object.assign(uniforms, behavior.uniforms);
+        Object.assign(attributes, behavior.attributes);
+        if (behavior.vertexDeclarations)
+          vertexDeclarations.push(behavior.vertexDeclarations);
+        if (behavior.vertex)
+          vertex.push(behavior.vertex);
+        if (behavior.fragmentDeclarations)
+          fragmentDeclarations.push(behavior.fragmentDeclarations);
+        if (behavior.fragment)
+          fragment.push(behavior.fragment);
+        break;
+    }
+  }
+
+  const uniformDeclarations = Object.entries(uniforms)
+    .map(([name, { value }]) => `uniform ${glslUniformType(value)} ${name};`)
+    .join("\n");
+  const attributeDeclarations = Object.entries(attributes)
+    .map(([name, itemSize]) => `attribute ${glslAttributeType(itemSize)} ${name};`)
+    .join("\n");
+
+  const vertexShader = /* glsl */`
+    ${raw ? `
+    precision highp float;
+
+    uniform mat4 modelViewMatrix;
+    uniform mat4 projectionMatrix;
+    attribute vec3 position;
+    attribute vec2 uv;
+    ` : "#include <emitter_scene_pars_vertex>"}
+
+    uniform float time;
+
+    #ifdef EMITTER_INSTANCES
+    #include <emitter_instance>
+    #endif
+
+    #ifdef EMITTER_LIFECYCLE
+    #include <emitter_lifecycle>
+    #endif
+
+    ${uniformDeclarations}
+    ${attributeDeclarations}
+    ${noise ? noiseFunctions : ""}
+    ${curves ? "#include <emitter_curves>" : ""}
+    ${vertexDeclarations.join("\n")}
+
+    varying vec2 vUv;
+    varying vec4 vColor;
+    varying float vAge;
+
+    void main() {
+      #ifdef EMITTER_INSTANCES
+      float particleTime = instanceTime(time);
+      #else
+      float particleTime = time;
+      #endif
+
+      #ifdef EMITTER_LIFECYCLE
+      if (!particleAlive(particleTime)) {
+        gl_Position = vec4(0.0, 0.0, 2.0, 1.0);
+        return;
+      }
+      float t = particleTime - birthTime;
+      float age = particleAge(particleTime);
+      #else
+      float t = particleTime;
+      float age = 0.0;
+      #endif
+
+      vec3 offset = vec3(0.0);
+      vec3 velocity = vec3(0.0);
+      vec3 acceleration = vec3(0.0);
+      float drag = 0.0;
+      float size = 1.0;
+      vec4 color = vec4(1.0);
+
+      ${init.join("\n")}
+
+      if (drag > 0.0) {
+        float decay = (1.0 - exp(-drag * t)) / drag;
+        offset += velocity * decay + acceleration * (t - decay) / drag;
+      }
+      else {
+        offset += velocity * t + 0.5 * acceleration * t * t;
+      }
+
+      ${vertex.join("\n")}
+
+      ${billboard ? `
+      vec4 mvPosition = modelViewMatrix * vec4(offset, 1.0);
+      mvPosition.xyz += position * size;
+      ` : `
+      vec4 mvPosition = modelViewMatrix * vec4(offset + position * size, 1.0);
+      `}
+
+      vUv = uv;
+      vColor = color;
+      vAge = age;
+      gl_Position = projectionMatrix * mvPosition;
+      ${raw ? "" : "#include <emitter_scene_vertex>"}
+    }
+  `;
+
+  const fragmentShader = /* glsl */`
+    ${raw ? "precision highp float;" : "#include <emitter_scene_pars_fragment>"}
+
+    uniform float time;
+    ${uniformDeclarations}
+    ${fragmentDeclarations.join("\n")}
+
+    varying vec2 vUv;
+    varying vec4 vColor;
+    varying float vAge;
+
+    void main() {
+      float age = vAge;
+      vec4 color = vColor;
+      ${fragment.join("\n")}
+      gl_FragColor = color;
+      ${raw ? "" : "#include <emitter_scene_fragment>"}
+    }
+  `;
+
+  return { vertexShader, fragmentShader, uniforms, attributes };
+}
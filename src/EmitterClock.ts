@@ -0,0 +1,67 @@
+/**
+ * A clock driving the `time` uniform of an `Emitter` and the update
+ * loop of an `EmitterManager`.
+ * Implement this interface to advance emitters from a custom time
+ * source, e.g. a game loop, a video renderer or a test harness.
+ */
+export interface IEmitterClock {
+
+  /**
+   * Get the current time in milliseconds.
+   *
+   * @returns {number}
+   */
+  now(): number;
+
+  /**
+   * Schedule a callback for the next frame. Used by the update loop
+   * of `EmitterManager`.
+   *
+   * @param {() => void} callback - The callback.
+   * @returns {void}
+   */
+  requestFrame(callback: () => void): void;
+}
+
+/**
+ * The default clock used by `Emitter` and `EmitterManager`.
+ * Reads the system time and schedules frames via
+ * `requestAnimationFrame`, falling back to `setTimeout` in
+ * environments without it (e.g. Node). The fallback timers don't keep
+ * Node processes alive.
+ *
+ * ```
+ * const emitter = new Emitter({
+ *   maxParticles: 1000,
+ *   clock: new EmitterClock()
+ * });
+ * ```
+ */
+export default class EmitterClock implements IEmitterClock {
+
+  /**
+   * Get the current time in milliseconds.
+   *
+   * @returns {number}
+   */
+  public now(): number {
+    return Date.now();
+  }
+
+  /**
+   * Schedule a callback for the next frame.
+   *
+   * @param {() => void} callback - The callback.
+   * @returns {void}
+   */
+  public requestFrame(callback: () => void): void {
+    if (typeof requestAnimationFrame === "function") {
+      requestAnimationFrame(() => { callback(); });
+    }
+    else {
+      const timer: unknown = setTimeout(callback, 1000 / 60);
+      // Don't keep Node processes alive, e.g. during SSR or tests
+      (timer as { unref?: () => void }).unref?.();
+    }
+  }
+}
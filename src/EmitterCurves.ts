@@ -0,0 +1,123 @@
+import * as THREE from "three";
+import type { Vec3, Vec4 } from "./EmitterBehaviors.js";
+
+/**
+ * A curve or gradient baked into the curve atlas of an `Emitter`.
+ * Either keyframes of `[t, value]` pairs with `t` in `[0, 1]`, linearly
+ * interpolated, or a function of `t`. Values are scalars or RGB(A)
+ * colors.
+ *
+ * ```
+ * const size: IEmitterCurve = [[0, 0], [0.1, 1], [1, 0.5]];
+ * const fire: IEmitterCurve = [[0, [1, 1, 0.5, 1]], [0.5, [1, 0.3, 0, 1]], [1, [0.2, 0.2, 0.2, 0]]];
+ * const pulse: IEmitterCurve = (t) => Math.sin(t * Math.PI);
+ * ```
+ */
+export type IEmitterCurve =
+  | [number, number][]
+  | [number, Vec3 | Vec4][]
+  | ((t: number) => number | Vec3 | Vec4);
+
+/**
+ * Curves baked into a texture atlas.
+ */
+export interface IEmitterCurveAtlas {
+
+  /**
+   * The atlas, one row per curve, `resolution` texels per row.
+   */
+  texture: THREE.DataTexture;
+
+  /**
+   * The row of each curve in the atlas.
+   */
+  rows: Record<string, number>;
+}
+
+/**
+ * Convert a curve value to RGBA. Scalars are written to all channels.
+ *
+ * @param {number | Vec3 | Vec4} value - The value.
+ * @returns {Vec4}
+ */
+function toVec4(value: number | Vec3 | Vec4): Vec4 {
+  if (typeof value === "number")
+    return [value, value, value, value];
+  return [value[0], value[1], value[2], value[3] ?? 1];
+}
+
+/**
+ * Evaluate a curve.
+ *
+ * ```
+ * evaluateEmitterCurve([[0, 0], [1, 2]], 0.25); // [0.5, 0.5, 0.5, 0.5]
+ * ```
+ *
+ * @param {IEmitterCurve} curve - The curve.
+ * @param {number} t - The position on the curve in `[0, 1]`.
+ * @returns {Vec4} The RGBA value, scalars are written to all channels.
+ */
+export function evaluateEmitterCurve(curve: IEmitterCurve, t: number): Vec4 {
+  if (typeof curve === "function")
+    return toVec4(curve(t));
+
+  const keyframes = [...curve as [number, number | Vec3 | Vec4][]].sort((a, b) => a[0] - b[0]);
+  if (keyframes.length === 0)
+    return [0, 0, 0, 0];
+
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (t <= first[0])
+    return toVec4(first[1]);
+  if (t >= last[0])
+    return toVec4(last[1]);
+
+  const next = keyframes.findIndex(([time]) => time > t);
+  const [fromTime, fromValue] = keyframes[next - 1];
+  const [toTime, toValue] = keyframes[next];
+  const from = toVec4(fromValue);
+  const to = toVec4(toValue);
+  const alpha = (t - fromTime) / (toTime - fromTime);
+  return from.map((value, i) => value + (to[i] - value) * alpha) as Vec4;
+}
+
+/**
+ * Get the name of the define holding the atlas row of a curve, e.g.
+ * `CURVE_COLOR_OVER_LIFE` for `colorOverLife`.
+ *
+ * @param {string} name - The name of the curve.
+ * @returns {string}
+ */
+export function emitterCurveDefine(name: string): string {
+  return `CURVE_${name.replace(/([a-z\d])([A-Z])/g, "$1_$2").replace(/\W/g, "_").toUpperCase()}`;
+}
+
+/**
+ * Bake curves into a float texture atlas, one row per curve.
+ * Sampled in the shader via `sampleCurve()`, see the `emitter_curves`
+ * chunk.
+ *
+ * @param {Record<string, IEmitterCurve>} curves - The curves.
+ * @param {number} resolution - The amount of texels per curve.
+ * @returns {IEmitterCurveAtlas}
+ */
+export function bakeEmitterCurves(curves: Record<string, IEmitterCurve>, resolution: number = 256): IEmitterCurveAtlas {
+  const entries = Object.entries(curves);
+  const height = Math.max(1, entries.length);
+  const data = new Float32Array(resolution * height * 4);
+  const rows: Record<string, number> = {};
+
+  for (const [row, [name, curve]] of entries.entries()) {
+    rows[name] = row;
+    for (let x = 0; x < resolution; x++)
+      data.set(evaluateEmitterCurve(curve, resolution > 1 ? x / (resolution - 1) : 0), (row * resolution + x) * 4);
+  }
+
+  // Nearest filtering, interpolation happens in `sampleCurve()` as linear
+  // filtering of float textures isn't supported everywhere
+  const texture = new THREE.DataTexture(data, resolution, height, THREE.RGBAFormat, THREE.FloatType);
+  texture.minFilter = THREE.NearestFilter;
+  texture.magFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return { texture, rows };
+}
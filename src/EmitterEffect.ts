@@ -0,0 +1,181 @@
+import type Emitter from "./Emitter.js";
+import type EmitterInstance from "./EmitterInstance.js";
+import { type IEmitterEmissionOptions } from "./EmitterEmission.js";
+import type {
+  IEmitterAttributes,
+  IEmitterAttributeName,
+  IEmitterAttributeValueOf,
+  IEmitterInstanceUniformValue,
+} from "./EmitterAttributes.js";
+
+/**
+ * Options for `Emitter.spawn()`.
+ */
+export interface IEmitterEffectOptions<TAttributes extends IEmitterAttributes = IEmitterAttributes> {
+
+  /**
+   * The amount of particles of the effect.
+   */
+  amount: number;
+
+  /**
+   * The duration of the effect in seconds. The effect is released
+   * automatically once the duration elapsed.
+   */
+  duration: number;
+
+  /**
+   * Values to fill the effect's attributes with, see
+   * `EmitterInstance.fillAttribute()`.
+   * 
+   * ```
+   * emitter.spawn({
+   *   amount: 100,
+   *   duration: 1,
+   *   attributes: {
+   *     emitterPosition: [x, y, z],
+   *     rng: () => Math.random()
+   *   }
+   * });
+   * ```
+   */
+  attributes?: { [TName in IEmitterAttributeName<TAttributes>]?: IEmitterAttributeValueOf<TAttributes, TName> };
+
+  /**
+   * Values of per-instance uniforms declared on the Emitter, see
+   * `EmitterInstance.setUniform()`.
+   * 
+   * ```
+   * emitter.spawn({
+   *   amount: 100,
+   *   duration: 1,
+   *   uniforms: { tint: new THREE.Color(1, 0.5, 0) }
+   * });
+   * ```
+   */
+  uniforms?: Record<string, IEmitterInstanceUniformValue>;
+
+  /**
+   * The emission model of the effect. Defaults to the emission model of
+   * the Emitter.
+   */
+  emission?: IEmitterEmissionOptions;
+}
+
+/**
+ * A handle for a fire-and-forget effect created by `Emitter.spawn()`.
+ * The effect runs on a pooled EmitterInstance, which is released back
+ * to the Emitter's pool once the effect completes or is cancelled.
+ * 
+ * ```
+ * const effect = emitter.spawn({
+ *   amount: 200,
+ *   duration: 1.5,
+ *   attributes: { emitterPosition: [x, y, z] }
+ * });
+ * 
+ * effect.onComplete(() => console.log("Explosion finished"));
+ * ```
+ */
+export default class EmitterEffect<TAttributes extends IEmitterAttributes = IEmitterAttributes> {
+
+  /**
+   * The Emitter running the effect.
+   */
+  public emitter: Emitter<TAttributes>;
+
+  /**
+   * The EmitterInstance running the effect. Must not be used after the
+   * effect has been released.
+   */
+  public instance: EmitterInstance<TAttributes>;
+
+  /**
+   * The Emitter's time when the effect was spawned in seconds. Also
+   * written into the `startTime` attribute of the effect's particles.
+   */
+  public startTime: number;
+
+  /**
+   * The duration of the effect in seconds, measured in the local time of
+   * its EmitterInstance.
+   */
+  public duration: number;
+
+  /**
+   * Indicates whether the effect has been released, i.e. it completed
+   * or was cancelled.
+   */
+  public released: boolean = false;
+
+  /**
+   * Indicates whether the effect ran for its full duration.
+   */
+  public completed: boolean = false;
+
+  /**
+   * Callbacks invoked once the effect completes.
+   */
+  protected completeCallbacks: (() => void)[] = [];
+
+  /**
+   * Create an EmitterEffect. Use `Emitter.spawn()` instead.
+   * 
+   * @param {Emitter} emitter - The Emitter running the effect.
+   * @param {EmitterInstance} instance - The EmitterInstance running the
+   *   effect.
+   * @param {number} duration - The duration of the effect in seconds.
+   */
+  constructor(emitter: Emitter<TAttributes>, instance: EmitterInstance<TAttributes>, duration: number) {
+    this.emitter = emitter;
+    this.instance = instance;
+    this.duration = duration;
+    this.startTime = emitter.time;
+  }
+
+  /**
+   * Register a callback invoked once the effect completes. Invoked
+   * immediately if the effect already completed.
+   * 
+   * @param {() => void} callback - The callback.
+   * @returns {this}
+   */
+  public onComplete(callback: () => void): this {
+    if (this.completed)
+      callback();
+    else if (!this.released)
+      this.completeCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Stop the effect and release it immediately without invoking the
+   * `onComplete` callbacks.
+   * 
+   * @returns {void}
+   */
+  public cancel(): void {
+    if (this.released)
+      return;
+    this.completeCallbacks = [];
+    this.emitter.effectReleased(this);
+  }
+
+  /**
+   * Complete the effect if its duration elapsed.
+   * Called by the Emitter on each update.
+   * 
+   * @returns {void}
+   */
+  public update(): void {
+    if (this.released || this.instance.time < this.duration)
+      return;
+
+    this.completed = true;
+    this.emitter.effectReleased(this);
+    const callbacks = this.completeCallbacks;
+    this.completeCallbacks = [];
+    for (const callback of callbacks)
+      callback();
+  }
+}
@@ -0,0 +1,308 @@
+import type EmitterRandom from "./EmitterRandom.js";
+
+/**
+ * A burst of particles emitted at once.
+ */
+export interface IEmitterBurst {
+
+  /**
+   * The time of the (first) burst in seconds after the emission
+   * started.
+   */
+  time: number;
+
+  /**
+   * The amount of particles emitted per burst.
+   */
+  amount: number;
+
+  /**
+   * The time between repeated bursts in seconds. Bursts aren't repeated
+   * if not set.
+   */
+  interval?: number;
+
+  /**
+   * The number of bursts. Default is `1` if no `interval` is set,
+   * otherwise infinite.
+   */
+  count?: number;
+}
+
+/**
+ * Options for an `EmitterEmission`.
+ */
+export interface IEmitterEmissionOptions {
+
+  /**
+   * The amount of particles emitted per second.
+   * Default is `0`.
+   */
+  rate?: number;
+
+  /**
+   * The lifetime of each particle in seconds. Either a fixed value or a
+   * `[min, max]` range to pick a random lifetime from.
+   * Default is `1`.
+   */
+  lifetime?: number | [number, number];
+
+  /**
+   * The random number generator picking lifetimes from a `[min, max]`
+   * range, e.g. to emit identical effects from the same seed. Defaults
+   * to `Math.random()`.
+   */
+  random?: EmitterRandom;
+
+  /**
+   * Bursts of particles emitted at specific times.
+   *
+   * ```
+   * const emission = new EmitterEmission({
+   *   bursts: [
+   *     { time: 0, amount: 100 },
+   *     { time: 1, amount: 10, interval: 0.5, count: 4 },
+   *   ]
+   * });
+   * ```
+   */
+  bursts?: IEmitterBurst[];
+}
+
+/**
+ * The serialized state of an `EmitterEmission`, see `toJSON()`.
+ */
+export interface IEmitterEmissionJSON extends Omit<IEmitterEmissionOptions, "random"> {
+
+  /**
+   * The time passed since the emission started in seconds.
+   */
+  elapsed: number;
+
+  /**
+   * The index of the next slot to emit into.
+   */
+  cursor: number;
+
+  /**
+   * The number of bursts fired per burst definition.
+   */
+  fired: number[];
+}
+
+/**
+ * The emission model of an `Emitter` or `EmitterInstance`.
+ * Emits particles at a continuous rate and in bursts by writing their
+ * birth time and lifetime into the `birthTime` and `lifetime`
+ * attributes. The particle slots of the emitting range are used as a
+ * ring buffer, i.e. new particles recycle the oldest slots.
+ *
+ * The shader can read the particle state via the `emitter_lifecycle`
+ * chunk, see `EmitterShaderChunks`.
+ *
+ * ```
+ * const emitter = new Emitter({
+ *   maxParticles: 1000,
+ *   emission: {
+ *     rate: 100,
+ *     lifetime: [1, 2]
+ *   }
+ * });
+ * ```
+ */
+export default class EmitterEmission {
+
+  /**
+   * The amount of particles emitted per second.
+   */
+  public rate: number = 0;
+
+  /**
+   * The lifetime of each particle in seconds.
+   */
+  public lifetime: number | [number, number] = 1;
+
+  /**
+   * The random number generator picking lifetimes, `Math.random()` if
+   * `null`.
+   */
+  public random: EmitterRandom | null = null;
+
+  /**
+   * Bursts of particles emitted at specific times.
+   */
+  public bursts: IEmitterBurst[] = [];
+
+  /**
+   * The time passed since the emission started in seconds.
+   */
+  public elapsed: number = 0;
+
+  /**
+   * The index of the next slot to emit into, relative to the emitting
+   * range.
+   */
+  public cursor: number = 0;
+
+  /**
+   * Fractional particles carried over to the next update.
+   */
+  protected accumulator: number = 0;
+
+  /**
+   * The number of bursts fired per burst definition.
+   */
+  protected fired: number[] = [];
+
+  /**
+   * Create an EmitterEmission.
+   *
+   * @param {IEmitterEmissionOptions} options - The options.
+   */
+  constructor(options: IEmitterEmissionOptions = {}) {
+    this.rate = options.rate ?? 0;
+    this.lifetime = options.lifetime ?? 1;
+    this.random = options.random ?? null;
+    this.bursts = options.bursts ?? [];
+  }
+
+  /**
+   * Advance the emission and emit all particles due within `delta`.
+   *
+   * @param {number} delta - The time passed in seconds.
+   * @param {number} time - The current time of the emitter in seconds.
+   * @param {Float32Array} birthTimes - The `birthTime` values of the
+   *   emitting range.
+   * @param {Float32Array} lifetimes - The `lifetime` values of the
+   *   emitting range.
+   * @returns {number} The amount of emitted particles.
+   */
+  public update(delta: number, time: number, birthTimes: Float32Array, lifetimes: Float32Array): number {
+    if (delta <= 0)
+      return 0;
+
+    this.elapsed += delta;
+    let emitted = 0;
+
+    // Continuous emission, spread across the passed time
+    if (this.rate > 0) {
+      this.accumulator += delta * this.rate;
+      const amount = Math.floor(this.accumulator);
+      this.accumulator -= amount;
+      for (let i = 0; i < amount; i++) {
+        const age = (amount - 1 - i + this.accumulator) / this.rate;
+        this.write(time - Math.min(age, delta), birthTimes, lifetimes);
+      }
+      emitted += amount;
+    }
+
+    // Bursts
+    for (const [index, burst] of this.bursts.entries()) {
+      const count = burst.count ?? (burst.interval ? Infinity : 1);
+      let fired = this.fired[index] ?? 0;
+      let burstTime = burst.time + fired * (burst.interval ?? 0);
+      while (fired < count && burstTime < this.elapsed) {
+        for (let i = 0; i < burst.amount; i++)
+          this.write(time - (this.elapsed - burstTime), birthTimes, lifetimes);
+        emitted += burst.amount;
+        fired++;
+        if (!burst.interval)
+          break;
+        burstTime += burst.interval;
+      }
+      this.fired[index] = fired;
+    }
+
+    return emitted;
+  }
+
+  /**
+   * Emit particles immediately.
+   *
+   * @param {number} amount - The amount of particles.
+   * @param {number} time - The current time of the emitter in seconds.
+   * @param {Float32Array} birthTimes - The `birthTime` values of the
+   *   emitting range.
+   * @param {Float32Array} lifetimes - The `lifetime` values of the
+   *   emitting range.
+   * @returns {void}
+   */
+  public emit(amount: number, time: number, birthTimes: Float32Array, lifetimes: Float32Array): void {
+    for (let i = 0; i < amount; i++)
+      this.write(time, birthTimes, lifetimes);
+  }
+
+  /**
+   * Indicates whether the emission won't emit any more particles, i.e.
+   * it has no rate and all its bursts fired.
+   */
+  get finished(): boolean {
+    return this.rate <= 0 && this.bursts.every((burst, index) =>
+      (this.fired[index] ?? 0) >= (burst.count ?? (burst.interval ? Infinity : 1))
+    );
+  }
+
+  /**
+   * Restart the emission, e.g. to replay its bursts.
+   *
+   * @returns {this}
+   */
+  public reset(): this {
+    this.elapsed = 0;
+    this.accumulator = 0;
+    this.fired = [];
+    return this;
+  }
+
+  /**
+   * Serialize the options and the progress of the emission.
+   *
+   * @returns {IEmitterEmissionJSON}
+   */
+  public toJSON(): IEmitterEmissionJSON {
+    return {
+      rate: this.rate,
+      lifetime: Array.isArray(this.lifetime) ? [...this.lifetime] : this.lifetime,
+      bursts: this.bursts.map((burst) => ({ ...burst })),
+      elapsed: this.elapsed,
+      cursor: this.cursor,
+      fired: [...this.fired],
+    };
+  }
+
+  /**
+   * Restore the progress of the emission serialized by `toJSON()`, so
+   * past bursts don't fire again.
+   *
+   * @param {IEmitterEmissionJSON} json - The serialized emission.
+   * @returns {this}
+   */
+  public fromJSON(json: IEmitterEmissionJSON): this {
+    this.elapsed = json.elapsed;
+    this.cursor = json.cursor;
+    this.fired = [...json.fired];
+    return this;
+  }
+
+  /**
+   * Write a particle into the next slot of the ring buffer.
+   *
+   * @param {number} birthTime - The birth time of the particle.
+   * @param {Float32Array} birthTimes - The `birthTime` values of the
+   *   emitting range.
+   * @param {Float32Array} lifetimes - The `lifetime` values of the
+   *   emitting range.
+   * @returns {void}
+   */
+  protected write(birthTime: number, birthTimes: Float32Array, lifetimes: Float32Array): void {
+    if (birthTimes.length === 0)
+      return;
+
+    this.cursor %= birthTimes.length;
+    birthTimes[this.cursor] = birthTime;
+    lifetimes[this.cursor] = Array.isArray(this.lifetime) ?
+      this.lifetime[0] + (this.random?.next() ?? Math.random()) * (this.lifetime[1] - this.lifetime[0]) :
+      this.lifetime;
+    this.cursor = (this.cursor + 1) % birthTimes.length;
+  }
+}
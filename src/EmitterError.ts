@@ -0,0 +1,138 @@
+import type Emitter from "./Emitter.js";
+import type EmitterInstance from "./EmitterInstance.js";
+
+/**
+ * The kind of problem an `EmitterError` describes.
+ * - `UNKNOWN_ATTRIBUTE`: An attribute doesn't exist.
+ * - `UNKNOWN_UNIFORM`: A per-instance uniform hasn't been declared.
+ * - `ATTRIBUTE_ITEM_SIZE`: A value doesn't match an attribute's item
+ *   size.
+ * - `ATTRIBUTE_COUNT`: An instanced attribute has fewer items than
+ *   `maxParticles` and is treated as shared across instances.
+ * - `INSTANCE_OVERFLOW`: An EmitterInstance doesn't fit into the
+ *   emitter and was clamped.
+ * - `INSTANCE_DISPOSED`: An EmitterInstance was disposed twice.
+ * - `SHADER_ERROR`: The emitter's shaders failed to compile.
+ * - `UNSUPPORTED_SORT`: Particles can't be sorted within the ring buffer
+ *   of an emission model.
+ * - `INVALID_SUB_EMITTER`: A sub-emitter spawns children on its parent
+ *   Emitter while the parent emits on its own.
+ * - `INVALID_JSON`: The JSON doesn't describe an emitter or misses its
+ *   geometry or material.
+ * - `UNSUPPORTED_JSON_VERSION`: The JSON was written by a newer version.
+ */
+export type IEmitterErrorCode =
+  | "UNKNOWN_ATTRIBUTE"
+  | "UNKNOWN_UNIFORM"
+  | "ATTRIBUTE_ITEM_SIZE"
+  | "ATTRIBUTE_COUNT"
+  | "INSTANCE_OVERFLOW"
+  | "INSTANCE_DISPOSED"
+  | "SHADER_ERROR"
+  | "UNSUPPORTED_SORT"
+  | "INVALID_SUB_EMITTER"
+  | "INVALID_JSON"
+  | "UNSUPPORTED_JSON_VERSION";
+
+/**
+ * The objects involved in an `EmitterError`.
+ */
+export interface IEmitterErrorContext {
+
+  /**
+   * The Emitter involved.
+   */
+  emitter?: Emitter;
+
+  /**
+   * The EmitterInstance involved.
+   */
+  instance?: EmitterInstance;
+
+  /**
+   * The name of the attribute involved.
+   */
+  attribute?: string;
+}
+
+/**
+ * Receives the warnings of emitters in `debug` mode.
+ *
+ * ```
+ * const emitter = new Emitter({
+ *   debug: true,
+ *   logger: { warn: (error) => myLogger.warn(error.code, error.message) }
+ * });
+ * ```
+ */
+export interface IEmitterLogger {
+
+  /**
+   * Log a warning.
+   *
+   * @param {EmitterError} error - The problem.
+   * @returns {void}
+   */
+  warn(error: EmitterError): void;
+}
+
+/**
+ * An error thrown by emitters, or passed to their logger, see the
+ * `strict` and `debug` options of `Emitter`. The message names the
+ * Emitter, EmitterInstance and attribute involved.
+ *
+ * ```
+ * try {
+ *   emitter.fillAttribute("emitterPosition", [0, 0]);
+ * }
+ * catch (error) {
+ *   if (error instanceof EmitterError && error.code === "ATTRIBUTE_ITEM_SIZE")
+ *     console.log(error.attribute);
+ * }
+ * ```
+ */
+export default class EmitterError extends Error {
+
+  /**
+   * The kind of problem.
+   */
+  public code: IEmitterErrorCode;
+
+  /**
+   * The Emitter involved.
+   */
+  public emitter: Emitter | null;
+
+  /**
+   * The EmitterInstance involved.
+   */
+  public instance: EmitterInstance | null;
+
+  /**
+   * The name of the attribute involved.
+   */
+  public attribute: string | null;
+
+  /**
+   * Create an EmitterError.
+   *
+   * @param {IEmitterErrorCode} code - The kind of problem.
+   * @param {string} message - The description of the problem.
+   * @param {IEmitterErrorContext} context - The objects involved.
+   */
+  constructor(code: IEmitterErrorCode, message: string, context: IEmitterErrorContext = {}) {
+    const emitter = context.emitter ?? context.instance?.emitter ?? null;
+    const involved = [
+      emitter && `emitter "${emitter.name || emitter.uuid}"`,
+      context.instance && `instance "${context.instance.name || `at offset ${String(context.instance.offset)}`}"`,
+      context.attribute && `attribute "${context.attribute}"`,
+    ].filter(Boolean).join(", ");
+
+    super(involved ? `${message} (${involved})` : message);
+    this.name = "EmitterError";
+    this.code = code;
+    this.emitter = emitter;
+    this.instance = context.instance ?? null;
+    this.attribute = context.attribute ?? null;
+  }
+}
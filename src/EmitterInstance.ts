@@ -1,4 +1,68 @@
+import * as THREE from "three";
 import Emitter from "./Emitter.js";
+import EmitterEmission, { type IEmitterEmissionOptions } from "./EmitterEmission.js";
+import type { IEmitterInstanceJSON } from "./EmitterObjectLoader.js";
+import EmitterError from "./EmitterError.js";
+import {
+  validateEmitterAttributeItem,
+  toEmitterUniformItem,
+  type IEmitterAttributes,
+  type IEmitterAttributeName,
+  type IEmitterAttribute,
+  type IEmitterAttributeValue,
+  type IEmitterAttributeValueOf,
+  type IEmitterInstanceUniformValue,
+} from "./EmitterAttributes.js";
+
+/**
+ * Options for `EmitterInstance.attachTo()`.
+ */
+export interface IEmitterAttachOptions {
+
+  /**
+   * The attribute receiving the position of the object. Created with an
+   * item size of `3` if it doesn't exist. Default is `"emitterPosition"`.
+   */
+  attribute?: string;
+
+  /**
+   * An attribute receiving the full transform of the object, i.e. its
+   * position, rotation and scale, as a `mat4`. Created with an item size
+   * of `16` if it doesn't exist.
+   */
+  matrix?: string;
+
+  /**
+   * The space the transform is written in. `"world"` writes the
+   * object's world transform, `"local"` writes the transform relative
+   * to the Emitter, e.g. for shaders applying the `modelMatrix`.
+   * Default is `"world"`.
+   */
+  space?: "world" | "local";
+
+  /**
+   * Only write the transform to newly emitted particles, so already
+   * emitted particles are left behind, e.g. for trails. Requires an
+   * emission model. Default is `false`.
+   */
+  trail?: boolean;
+}
+
+/**
+ * The events dispatched by an `EmitterInstance`.
+ * - `complete`: The emission finished and all emitted particles died.
+ *   Dispatched again if particles are emitted afterwards, e.g. via
+ *   `restart()` or `emit()`.
+ * - `disposed`: The EmitterInstance was disposed.
+ * 
+ * ```
+ * instance.addEventListener("complete", () => instance.dispose());
+ * ```
+ */
+export interface IEmitterInstanceEventMap {
+  complete: object;
+  disposed: object;
+}
 
 /**
  * A particle emitter instance.
@@ -31,21 +95,40 @@ import Emitter from "./Emitter.js";
  * blueEmitterInstance.fillAttribute("emitterPosition", [5, 5, 0]);
  * blueEmitterInstance.fillAttribute("particleColor", [0.0, 0.0, 1.0, 1.0]);
  * ```
+ * 
+ * `TAttributes` is inferred from the parent Emitter and keys
+ * `attributes` and `fillAttribute()`.
+ * 
+ * EmitterInstances dispatch lifecycle events, see
+ * `IEmitterInstanceEventMap`.
  */
-export default class EmitterInstance {
+export default class EmitterInstance<TAttributes extends IEmitterAttributes = IEmitterAttributes> extends THREE.EventDispatcher<IEmitterInstanceEventMap> {
+
+  /**
+   * The name of the EmitterInstance, used in errors and warnings.
+   */
+  public name: string = "";
 
   /**
    * The amount of particles in the EmitterInstance.
-   * Must be smaller/equal to its parent Emitter's maxParticles.
+   * Must be smaller/equal to its parent Emitter's maxParticles unless
+   * the Emitter grows automatically.
    */
   public particleAmount: number = 0;
 
+  /**
+   * The index of the first particle slot of the EmitterInstance in its
+   * parent Emitter's attributes. Assigned by the Emitter and may change
+   * when the Emitter is compacted.
+   */
+  public offset: number = 0;
+
   /**
    * The EmitterInstance's parent Emitter.
    * All EmitterInstances will share the same shader program while
    * having access to their own shader attributes.
    */
-  public emitter: Emitter;
+  public emitter: Emitter<TAttributes>;
 
   /**
    * Typed (sub-) arrays for the corresponding shader attribute buffers.
@@ -79,7 +162,7 @@ export default class EmitterInstance {
    * 
    * See `fillAttributes()` for an easy way to manipulate attributes. 
    */
-  public attributes: Partial<Record<string, Float32Array>> = {};
+  public attributes: Partial<Record<IEmitterAttributeName<TAttributes>, Float32Array>> = {};
 
   /**
    * A map of attributes and the corresponding EventEmitter's index.
@@ -87,23 +170,227 @@ export default class EmitterInstance {
    */
   public attributeIndices: Partial<Record<string, number>> = {};
 
+  /**
+   * The values of per-instance uniforms set on the EmitterInstance,
+   * see `setUniform()`. Declared uniforms missing here use the parent
+   * Emitter's defaults.
+   */
+  public uniforms: Record<string, number[]> = {};
+
+  /**
+   * The emission model of the EmitterInstance. Inherited from the parent
+   * Emitter on creation.
+   */
+  public emission: EmitterEmission | null = null;
+
+  /**
+   * The playback speed of the EmitterInstance's local time.
+   */
+  public speed: number = 1;
+
+  /**
+   * Indicates whether the EmitterInstance's local time is paused.
+   */
+  public paused: boolean = false;
+
+  /**
+   * The object the EmitterInstance follows, see `attachTo()`.
+   */
+  public target: THREE.Object3D | null = null;
+
+  /**
+   * The options of the attachment to `target`.
+   */
+  public attachment: Required<IEmitterAttachOptions> | null = null;
+
+  /**
+   * The explicit bounds of the EmitterInstance's particles in the
+   * parent Emitter's local space, see `setBounds()`.
+   */
+  public bounds: THREE.Box3 | null = null;
+
+  /**
+   * The transform written by the last attachment update.
+   */
+  protected attachmentMatrix: THREE.Matrix4 = new THREE.Matrix4();
+
+  /**
+   * Indicates whether particles were emitted since the last `complete`
+   * event.
+   */
+  protected pendingCompletion: boolean = false;
+
+  /**
+   * The offset of the local time relative to the parent Emitter's
+   * scaled time. Used internally.
+   */
+  protected timeOffset: number = 0;
+
+  /**
+   * Remove the event listeners added since the last `recycle()`.
+   */
+  protected listenerRemovers: (() => void)[] = [];
+
   /**
    * Create an EmitterInstance.
    * 
    * @param {Emitter} emitter - The parent Emitter.
    * @param {number} particleAmount - The amount of particles to emit.
+   * @param {number} [offset] - The preferred index of the first particle
+   *   slot, e.g. to restore a serialized layout. Falls back to any free
+   *   range if the slots are taken.
    */
-  constructor(emitter: Emitter, particleAmount: number) {
+  constructor(emitter: Emitter<TAttributes>, particleAmount: number, offset?: number) {
+    super();
     this.emitter = emitter;
+    this.recycle(particleAmount, offset);
+  }
+
+  /**
+   * Register the EmitterInstance with its parent Emitter, allocate its
+   * particle slots and inherit the Emitter's emission model. Used by
+   * the constructor and to re-use disposed EmitterInstances, e.g. by
+   * `Emitter.spawn()`.
+   * 
+   * ```
+   * const instance = new EmitterInstance(emitter, 100);
+   * instance.dispose();
+   * instance.recycle(200);
+   * ```
+   * 
+   * @param {number} particleAmount - The amount of particles to emit.
+   * @param {number} [offset] - The preferred index of the first particle
+   *   slot.
+   * @returns {this}
+   */
+  public recycle(particleAmount: number, offset?: number): this {
     this.particleAmount = particleAmount;
+    this.speed = 1;
+    this.paused = false;
+    this.uniforms = {};
+    this.target = null;
+    this.attachment = null;
+    this.bounds = null;
+    this.pendingCompletion = false;
+    // Listeners of the previous use, e.g. of a pooled effect, don't apply anymore
+    for (const remove of this.listenerRemovers)
+      remove();
+    this.listenerRemovers = [];
 
+    this.emitter.addParticleAttribute("instancePlayback", 2);
+    this.emitter.addParticleAttribute("instanceActive", 1);
+    this.added(offset);
     this.calculateAttributeSubarrays();
-    this.added();
+    // Released slots are cleared to 0 and culled by the shaders
+    this.writeAttribute("instanceActive", 1);
+    this.applyUniforms();
+    this.seek(0);
+
+    const emission = this.emitter.emission;
+    this.setEmission(emission ? { ...emission, bursts: [...emission.bursts], random: emission.random ?? undefined } : null);
+    return this;
+  }
+
+  /**
+   * Add an event listener, see `IEmitterInstanceEventMap`. Listeners are
+   * removed when the EmitterInstance is recycled, e.g. by
+   * `Emitter.spawn()`.
+   * 
+   * @param {string} type - The type of the event.
+   * @param {THREE.EventListener} listener - The listener.
+   * @returns {void}
+   */
+  public override addEventListener<T extends Extract<keyof IEmitterInstanceEventMap, string>>(
+    type: T,
+    listener: THREE.EventListener<IEmitterInstanceEventMap[T], T, this>,
+  ): void {
+    super.addEventListener(type, listener);
+    this.listenerRemovers.push(() => { this.removeEventListener(type, listener); });
+  }
+
+  /**
+   * Pause the EmitterInstance's local time.
+   * 
+   * ```
+   * instance.pause();
+   * ```
+   * 
+   * @returns {this}
+   */
+  public pause(): this {
+    const time = this.time;
+    this.paused = true;
+    return this.seek(time);
+  }
+
+  /**
+   * Resume the EmitterInstance's local time.
+   * 
+   * ```
+   * instance.resume();
+   * ```
+   * 
+   * @returns {this}
+   */
+  public resume(): this {
+    const time = this.time;
+    this.paused = false;
+    return this.seek(time);
+  }
+
+  /**
+   * Set the playback speed of the EmitterInstance's local time.
+   * 
+   * ```
+   * instance.setSpeed(0.5);
+   * ```
+   * 
+   * @param {number} speed - The playback speed.
+   * @returns {this}
+   */
+  public setSpeed(speed: number): this {
+    const time = this.time;
+    this.speed = speed;
+    return this.seek(time);
+  }
+
+  /**
+   * Set the EmitterInstance's local time.
+   * 
+   * ```
+   * instance.seek(1.5);
+   * ```
+   * 
+   * @param {number} time - The local time in seconds.
+   * @returns {this}
+   */
+  public seek(time: number): this {
+    this.timeOffset = time - this.emitter.time * this.playbackSpeed;
+    this.writeAttribute("instancePlayback", [this.timeOffset, this.playbackSpeed]);
+    return this;
+  }
+
+  /**
+   * Restart the EmitterInstance from local time `0`. Restarts the
+   * emission and kills all emitted particles.
+   * 
+   * ```
+   * instance.restart();
+   * ```
+   * 
+   * @returns {this}
+   */
+  public restart(): this {
+    this.emission?.reset();
+    this.attributes.lifetime?.fill(0);
+    return this.seek(0);
   }
 
   /**
    * Fill an attribute with a data. Handles floats, arrays of floats or
-   * functions that return floats.
+   * functions that return floats or arrays of floats. Functions
+   * returning arrays are called once per item and their values are
+   * written to the item, e.g. samplers from `EmitterSamplers`.
    * 
    * ```
    * const emitter = new Emitter()
@@ -122,39 +409,402 @@ export default class EmitterInstance {
    * const instance2 = new EmitterInstance(Emitter, 200)
    * instance2.fillAttribute("emitterPosition", [1, 1, 0]);
    * instance2.fillAttribute("someAttribute", 0.1);
+   * 
+   * const random = new EmitterRandom(42);
+   * instance2.fillAttribute("emitterPosition", sphereSampler({ radius: 1 }, random));
    * ```
    * 
    * @param {string} attribute - The attribute to fill.
-   * @param {number | number[] | ((index: number) => number)} value -
+   * @param {number | number[] | ((index: number) => number | number[])} value -
+   *   The value to fill with. Arrays must match the attribute's item
+   *   size.
+   * @returns {void}
+   */
+  public fillAttribute<TName extends IEmitterAttributeName<TAttributes>>(attribute: TName, value: IEmitterAttributeValueOf<TAttributes, TName>): void {
+    this.writeAttribute(attribute, value);
+  }
+
+  /**
+   * Fill an attribute with data, see `fillAttribute()`. Accepts any
+   * attribute name and value, both are checked at runtime only.
+   * Used internally.
+   * 
+   * @param {string} attribute - The attribute to fill.
+   * @param {number | number[] | ((index: number) => number | number[])} value -
    *   The value to fill with.
    * @returns {void}
    */
-  public fillAttribute(attribute: string, value: number | number[] | ((index: number) => number)): void {
-    if (!this.attributes[attribute])
+  public writeAttribute(attribute: string, value: IEmitterAttributeValue<IEmitterAttribute>): void {
+    const data = this.attributes[attribute];
+    if (!data) {
+      this.emitter.report(new EmitterError("UNKNOWN_ATTRIBUTE", "Can't fill an unknown attribute.", { instance: this, attribute }));
       return;
+    }
 
-    const data = this.attributes[attribute];
+    const itemSize = this.emitter.geometry.attributes[attribute].itemSize;
     if (typeof value === "function") {
-      for (let i = 0; i < data.length; i += 1)
-        data.set([value(i)], i);
+      let sourceIndex = 0;
+      let destIndex = 0;
+      // Only report the first mismatching item
+      let valid = true;
+      while (destIndex < data.length) {
+        const val = value(sourceIndex++);
+        const item = Array.isArray(val) ? val : [val];
+        if (valid && Array.isArray(val))
+          valid = validateEmitterAttributeItem(val, itemSize, this.emitter, { instance: this, attribute });
+        // Mismatching items may not fit at the end
+        data.set(destIndex + item.length > data.length ? item.slice(0, data.length - destIndex) : item, destIndex);
+        destIndex += item.length;
+      }
     }
     else if (Array.isArray(value)) {
+      validateEmitterAttributeItem(value, itemSize, this.emitter, { instance: this, attribute });
       for (let i = 0; i < data.length; i += value.length)
-        data.set(value, i);
+        data.set(i + value.length > data.length ? value.slice(0, data.length - i) : value, i);
     }
     else {
       data.fill(value);
     }
   }
 
+  /**
+   * Set the value of a per-instance uniform declared on the parent
+   * Emitter, see `Emitter.setInstanceUniforms()`. The value is written
+   * to all particles of the EmitterInstance and kept when the
+   * EmitterInstance is moved.
+   * 
+   * ```
+   * const instance = new EmitterInstance(emitter, 100)
+   *   .setUniform("tint", new THREE.Color(1, 0, 0))
+   *   .setUniform("intensity", 2);
+   * ```
+   * 
+   * @param {string} name - The name of the uniform.
+   * @param {IEmitterInstanceUniformValue} value - The value. Arrays,
+   *   vectors and colors must match the declared item size.
+   * @returns {this}
+   */
+  public setUniform(name: string, value: IEmitterInstanceUniformValue): this {
+    const fallback = this.emitter.instanceUniforms[name] as number[] | undefined;
+    if (!fallback) {
+      this.emitter.report(new EmitterError("UNKNOWN_UNIFORM", "Can't set an undeclared per-instance uniform.", { instance: this, attribute: name }));
+      return this;
+    }
+
+    const item = toEmitterUniformItem(value);
+    if (!validateEmitterAttributeItem(item, fallback.length, this.emitter, { instance: this, attribute: name }))
+      return this;
+    this.uniforms[name] = item;
+    this.writeAttribute(name, item);
+    return this;
+  }
+
+  /**
+   * Get the value of a per-instance uniform, i.e. the value set by
+   * `setUniform()` or the parent Emitter's default. Empty for undeclared
+   * uniforms.
+   * 
+   * ```
+   * const [r, g, b] = instance.getUniform("tint");
+   * ```
+   * 
+   * @param {string} name - The name of the uniform.
+   * @returns {number[]}
+   */
+  public getUniform(name: string): number[] {
+    const value = this.uniforms[name] as number[] | undefined ?? this.emitter.instanceUniforms[name] as number[] | undefined;
+    if (!value) {
+      this.emitter.report(new EmitterError("UNKNOWN_UNIFORM", "Can't get an undeclared per-instance uniform.", { instance: this, attribute: name }));
+      return [];
+    }
+    return value.slice();
+  }
+
+  /**
+   * Write the values of all declared per-instance uniforms to the
+   * EmitterInstance's particles. Used internally.
+   * 
+   * @returns {void}
+   */
+  public applyUniforms(): void {
+    for (const [name, fallback] of Object.entries(this.emitter.instanceUniforms)) {
+      const item = this.uniforms[name] as number[] | undefined ?? fallback;
+      if (item.length === this.emitter.geometry.attributes[name].itemSize)
+        this.writeAttribute(name, item);
+    }
+  }
+
+  /**
+   * Set the emission model of the EmitterInstance. Particles are emitted
+   * into the EmitterInstance's particle slots, which are used as a ring
+   * buffer.
+   * 
+   * ```
+   * const sparks = new EmitterInstance(emitter, 200)
+   *   .setEmission({ rate: 50, lifetime: [0.5, 1] });
+   * ```
+   * 
+   * @param {IEmitterEmissionOptions | null} emission - The emission
+   *   options or `null` to stop emitting.
+   * @returns {this}
+   */
+  public setEmission(emission: IEmitterEmissionOptions | null): this {
+    if (emission) {
+      this.emitter.addParticleAttribute("birthTime", 1);
+      this.emitter.addParticleAttribute("lifetime", 1);
+    }
+    this.emission = emission ? new EmitterEmission(emission) : null;
+    return this;
+  }
+
+  /**
+   * Emit particles immediately, e.g. for manually triggered bursts.
+   * 
+   * ```
+   * instance.emit(100);
+   * ```
+   * 
+   * @param {number} amount - The amount of particles.
+   * @returns {this}
+   */
+  public emit(amount: number): this {
+    if (this.emission && this.attributes.birthTime && this.attributes.lifetime) {
+      const cursor = this.emission.cursor;
+      this.emission.emit(amount, this.time, this.attributes.birthTime, this.attributes.lifetime);
+      this.pendingCompletion ||= amount > 0;
+      if (this.attachment?.trail) {
+        this.updateAttachmentMatrix();
+        this.writeAttachment(cursor, amount);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Advance the EmitterInstance, e.g. to emit particles.
+   * Called by the parent Emitter on each update.
+   * 
+   * @param {number} delta - The time passed on the parent Emitter in
+   *   seconds.
+   * @returns {void}
+   */
+  public update(delta: number): void {
+    let cursor = 0;
+    let emitted = 0;
+    if (this.emission && this.attributes.birthTime && this.attributes.lifetime) {
+      cursor = this.emission.cursor;
+      emitted = this.emission.update(delta * this.playbackSpeed, this.time, this.attributes.birthTime, this.attributes.lifetime);
+      this.pendingCompletion ||= emitted > 0;
+      if (this.pendingCompletion && this.emission.finished && !this.hasLivingParticles()) {
+        this.pendingCompletion = false;
+        this.dispatchEvent({ type: "complete" });
+      }
+    }
+
+    if (this.target && this.attachment) {
+      this.updateAttachmentMatrix();
+      if (this.attachment.trail)
+        this.writeAttachment(cursor, emitted);
+      else
+        this.writeAttachment(0, this.particleAmount);
+    }
+  }
+
+  /**
+   * Set explicit bounds of the EmitterInstance's particles in the parent
+   * Emitter's local space. They take precedence over the bounds computed
+   * from the Emitter's position attribute, see `Emitter.setBounds()`.
+   * 
+   * ```
+   * const explosion = new EmitterInstance(emitter, 500)
+   *   .setBounds(new THREE.Sphere(new THREE.Vector3(x, y, z), 10));
+   * ```
+   * 
+   * @param {THREE.Box3 | THREE.Sphere | null} bounds - The bounds or
+   *   `null` to compute them from the Emitter's position attribute.
+   * @returns {this}
+   */
+  public setBounds(bounds: THREE.Box3 | THREE.Sphere | null): this {
+    this.bounds = bounds instanceof THREE.Sphere ? bounds.getBoundingBox(new THREE.Box3()) : bounds?.clone() ?? null;
+    this.emitter.boundsNeedUpdate = true;
+    return this;
+  }
+
+  /**
+   * Check whether any emitted particle of the EmitterInstance is alive.
+   * 
+   * @returns {boolean}
+   */
+  protected hasLivingParticles(): boolean {
+    const { birthTime, lifetime } = this.attributes;
+    if (!birthTime || !lifetime)
+      return false;
+
+    const time = this.time;
+    for (let i = 0; i < lifetime.length; i++) {
+      if (lifetime[i] > 0 && time < birthTime[i] + lifetime[i])
+        return true;
+    }
+    return false;
+  }
+
+  /**
+   * Let the EmitterInstance follow an object, e.g. a character or a
+   * projectile. On each update of the parent Emitter, the object's
+   * position, and optionally its full transform, is written into the
+   * EmitterInstance's particles.
+   * 
+   * ```
+   * const exhaust = new EmitterInstance(emitter, 500)
+   *   .setEmission({ rate: 200, lifetime: 1 })
+   *   .attachTo(rocket, { attribute: "emitterPosition", trail: true });
+   * ```
+   * 
+   * @param {THREE.Object3D} object - The object to follow.
+   * @param {IEmitterAttachOptions} [options] - The options.
+   * @returns {this}
+   */
+  public attachTo(object: THREE.Object3D, options: IEmitterAttachOptions = {}): this {
+    this.target = object;
+    this.attachment = {
+      attribute: options.attribute ?? "emitterPosition",
+      matrix: options.matrix ?? "",
+      space: options.space ?? "world",
+      trail: options.trail ?? false,
+    };
+
+    this.emitter.addParticleAttribute(this.attachment.attribute, 3);
+    if (this.attachment.matrix)
+      this.emitter.addParticleAttribute(this.attachment.matrix, 16);
+
+    this.updateAttachmentMatrix();
+    this.writeAttachment(0, this.particleAmount);
+    return this;
+  }
+
+  /**
+   * Stop following the object set by `attachTo()`. The particles keep
+   * the last written transform.
+   * 
+   * ```
+   * instance.detach();
+   * ```
+   * 
+   * @returns {this}
+   */
+  public detach(): this {
+    this.target = null;
+    this.attachment = null;
+    return this;
+  }
+
+  /**
+   * Read the transform of the attached object in the configured space.
+   * Used internally.
+   * 
+   * @returns {void}
+   */
+  protected updateAttachmentMatrix(): void {
+    if (!this.target || !this.attachment)
+      return;
+
+    this.target.updateWorldMatrix(true, false);
+    this.attachmentMatrix.copy(this.target.matrixWorld);
+    if (this.attachment.space === "local") {
+      this.emitter.updateWorldMatrix(true, false);
+      this.attachmentMatrix.premultiply(new THREE.Matrix4().copy(this.emitter.matrixWorld).invert());
+    }
+  }
+
+  /**
+   * Write the transform of the attached object to a range of particle
+   * slots, wrapping around like the emission's ring buffer.
+   * Used internally.
+   * 
+   * @param {number} start - The index of the first particle slot.
+   * @param {number} amount - The amount of particle slots.
+   * @returns {void}
+   */
+  protected writeAttachment(start: number, amount: number): void {
+    if (!this.attachment || this.particleAmount === 0)
+      return;
+
+    const attributes = this.attributes as Partial<Record<string, Float32Array>>;
+    const position = new THREE.Vector3().setFromMatrixPosition(this.attachmentMatrix).toArray();
+    const targets: [Float32Array | undefined, number[]][] = [
+      [attributes[this.attachment.attribute], position],
+      [this.attachment.matrix ? attributes[this.attachment.matrix] : undefined, this.attachmentMatrix.toArray()],
+    ];
+
+    for (const [data, item] of targets) {
+      if (!data)
+        continue;
+      for (let i = 0; i < Math.min(amount, this.particleAmount); i++)
+        data.set(item, ((start + i) % this.particleAmount) * item.length);
+    }
+  }
+
   /**
    * Registers the EmitterInstance with its parent Emitter.
    * Used internally.
    * 
+   * @param {number} [offset] - The preferred index of the first particle
+   *   slot.
    * @returns {void}
    */
-  protected added(): void {
-    this.emitter.instanceAdded(this);
+  protected added(offset?: number): void {
+    this.emitter.instanceAdded(this, offset);
+  }
+
+  /**
+   * Copy the state of another EmitterInstance, e.g. its local time,
+   * emission, per-instance uniforms, bounds and attachment. The particle
+   * data lives in the Emitter's attributes and isn't copied, neither are
+   * event listeners. Used by `Emitter.copy()`.
+   * 
+   * ```
+   * const copy = new EmitterInstance(emitter, instance.particleAmount).copy(instance);
+   * ```
+   * 
+   * @param {EmitterInstance} source - The EmitterInstance to copy.
+   * @returns {this}
+   */
+  public copy(source: EmitterInstance<TAttributes>): this {
+    this.name = source.name;
+    this.speed = source.speed;
+    this.paused = source.paused;
+
+    const emission = source.emission?.toJSON() ?? null;
+    this.setEmission(emission && { ...emission, random: source.emission?.random?.clone() });
+    if (emission)
+      this.emission?.fromJSON(emission);
+
+    for (const [name, value] of Object.entries(source.uniforms))
+      this.setUniform(name, value);
+    this.bounds = source.bounds?.clone() ?? null;
+    this.target = source.target;
+    this.attachment = source.attachment && { ...source.attachment };
+    this.attachmentMatrix.copy(source.attachmentMatrix);
+    this.pendingCompletion = source.pendingCompletion;
+    return this.seek(source.time);
+  }
+
+  /**
+   * Serialize the EmitterInstance. Used internally by `Emitter.toJSON()`.
+   * 
+   * @returns {IEmitterInstanceJSON}
+   */
+  public toJSON(): IEmitterInstanceJSON {
+    return {
+      offset: this.offset,
+      particleAmount: this.particleAmount,
+      time: this.time,
+      speed: this.speed,
+      paused: this.paused,
+      emission: this.emission?.toJSON() ?? null,
+      uniforms: this.uniforms,
+      bounds: this.bounds ? [...this.bounds.min.toArray(), ...this.bounds.max.toArray()] : null,
+    };
   }
 
   /**
@@ -164,7 +814,37 @@ export default class EmitterInstance {
    * @returns {void}
    */
   public dispose(): void {
+    const registered = this.emitter.knownInstances.has(this);
     this.emitter.instanceRemoved(this);
+    if (registered)
+      this.dispatchEvent({ type: "disposed" });
+  }
+
+  /**
+   * The EmitterInstance's local time in seconds. Starts at `0` when the
+   * EmitterInstance is created and advances with the parent Emitter's
+   * time, scaled by `speed`. Available in the shader via the
+   * `emitter_instance` chunk.
+   * 
+   * ```
+   * uniform float time;
+   * #include <emitter_instance>
+   * 
+   * void main() {
+   *   float localTime = instanceTime(time);
+   *   // ...
+   * }
+   * ```
+   */
+  get time(): number {
+    return this.timeOffset + this.emitter.time * this.playbackSpeed;
+  }
+
+  /**
+   * The effective playback speed, i.e. `0` while paused.
+   */
+  get playbackSpeed(): number {
+    return this.paused ? 0 : this.speed;
   }
 
   /**
@@ -173,18 +853,19 @@ export default class EmitterInstance {
    * @returns {void}
    */
   public calculateAttributeSubarrays(): void {
+    const attributes = this.attributes as Partial<Record<string, Float32Array>>;
     for (const [name, attr] of Object.entries(this.emitter.geometry.attributes)) {
-      if (attr.count >= this.emitter.maxParticles) {
+      if (this.emitter.isParticleAttribute(attr)) {
         // Per-vertex attributes
         // Create an array view for the corresponding subarray
-        const start = this.attributeIndices[name] ?? Math.max(0, this.emitter.geometry.instanceCount * attr.itemSize);
+        const start = this.offset * attr.itemSize;
         const end = Math.min(attr.array.length, start + this.particleAmount * attr.itemSize);
         this.attributeIndices[name] = start;
-        this.attributes[name] = new Proxy(attr.array.subarray(start, end) as Float32Array, {
+        attributes[name] = new Proxy(attr.array.subarray(start, end) as Float32Array, {
           get: (target, prop): unknown => {
-            // Trigger needsUpdate if the array is mutated
+            // Flag the instance's range for upload if the array is mutated
             if (prop === "set" || prop === "fill" || prop === "copyWithin")
-              this.emitter.geometry.attributes[name].needsUpdate = true;
+              this.emitter.markAttributeDirty(name, start, target.length);
             // Very hacky way to get around exotic properties
             /* eslint-disable */
             // @ts-expect-error only way around exotic properties
@@ -197,7 +878,7 @@ export default class EmitterInstance {
           },
           set: (target, prop, value, receiver): boolean => {
             if (typeof prop === "string" && !isNaN(Number(prop))) {
-              this.emitter.geometry.attributes[name].needsUpdate = true;
+              this.emitter.markAttributeDirty(name, start + Number(prop), 1);
               // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
               target[Number(prop)] = value;
               return true;
@@ -206,10 +887,10 @@ export default class EmitterInstance {
           }
         });
       }
-      else if (!this.attributes[name]) {
+      else if (!attributes[name]) {
         // Per draw-call attributes
         // Store the array view for the entire buffer
-        this.attributes[name] = attr.array as Float32Array;
+        attributes[name] = attr.array as Float32Array;
       }
     }
   }
@@ -0,0 +1,183 @@
+import type Emitter from "./Emitter.js";
+import EmitterClock, { type IEmitterClock } from "./EmitterClock.js";
+
+/**
+ * Options for the `EmitterManager`.
+ */
+export interface IEmitterManagerOptions {
+
+  /**
+   * The clock used to schedule the update loop.
+   * Default is an `EmitterClock` based on `requestAnimationFrame`.
+   * 
+   * ```
+   * const manager = new EmitterManager({
+   *   clock: new ManualEmitterClock()
+   * });
+   * ```
+   */
+  clock?: IEmitterClock;
+
+  /**
+   * Whether the manager should run its own update loop.
+   * Default is `true`.
+   * 
+   * ```
+   * const manager = new EmitterManager({
+   *   autoUpdate: false
+   * });
+   * 
+   * renderer.setAnimationLoop(() => {
+   *   manager.update();
+   *   renderer.render(scene, camera);
+   * });
+   * ```
+   */
+  autoUpdate?: boolean;
+}
+
+/**
+ * A scheduler updating all registered emitters from a single loop.
+ * Auto-updating emitters register with `EmitterManager.default` unless
+ * a different manager is provided. Emitters are registered only once,
+ * no matter how often auto-updates are enabled, and are unregistered
+ * when they are disposed.
+ * 
+ * ```
+ * const manager = new EmitterManager({ autoUpdate: false });
+ * manager.onBeforeUpdate = (emitter) => {
+ *   emitter.uniforms.pointer.value = pointerDistance;
+ * };
+ * 
+ * const emitter = new Emitter({
+ *   maxParticles: 1000,
+ *   manager
+ * });
+ * 
+ * renderer.setAnimationLoop(() => {
+ *   manager.update();
+ *   renderer.render(scene, camera);
+ * });
+ * ```
+ */
+export default class EmitterManager {
+
+  /**
+   * The manager used by auto-updating emitters by default.
+   */
+  public static readonly default: EmitterManager = new EmitterManager();
+
+  /**
+   * A set of all emitters updated by this manager.
+   */
+  public emitters: Set<Emitter> = new Set();
+
+  /**
+   * The clock used to schedule the update loop.
+   */
+  public clock: IEmitterClock = new EmitterClock();
+
+  /**
+   * Indicates whether the manager runs its own update loop.
+   */
+  public autoUpdate: boolean = true;
+
+  /**
+   * Called before each emitter is updated.
+   */
+  public onBeforeUpdate: ((emitter: Emitter) => void) | null = null;
+
+  /**
+   * Called after each emitter is updated.
+   */
+  public onAfterUpdate: ((emitter: Emitter) => void) | null = null;
+
+  /**
+   * Indicates whether the next frame is already scheduled.
+   */
+  protected scheduled: boolean = false;
+
+  /**
+   * Create an EmitterManager.
+   * 
+   * @param {IEmitterManagerOptions} options - The options.
+   */
+  constructor(options: IEmitterManagerOptions = {}) {
+    if (options.clock)
+      this.clock = options.clock;
+
+    this.setAutoUpdate(options.autoUpdate ?? true);
+  }
+
+  /**
+   * Define whether the manager should run its own update loop. Disable
+   * it to call `update()` from an existing loop instead, e.g.
+   * `renderer.setAnimationLoop()`.
+   * 
+   * @param {boolean} autoUpdate - Whether the manager should run its own
+   *   update loop.
+   * @returns {this}
+   */
+  public setAutoUpdate(autoUpdate: boolean): this {
+    this.autoUpdate = autoUpdate;
+    this.schedule();
+    return this;
+  }
+
+  /**
+   * Register an emitter to be updated by this manager.
+   * 
+   * @param {Emitter} emitter - The emitter.
+   * @returns {this}
+   */
+  public register(emitter: Emitter): this {
+    this.emitters.add(emitter);
+    this.schedule();
+    return this;
+  }
+
+  /**
+   * Unregister an emitter from this manager.
+   * 
+   * @param {Emitter} emitter - The emitter.
+   * @returns {this}
+   */
+  public unregister(emitter: Emitter): this {
+    this.emitters.delete(emitter);
+    return this;
+  }
+
+  /**
+   * Update all registered emitters. Should be called every frame if
+   * `autoUpdate` is set to false.
+   * 
+   * @returns {void}
+   */
+  public update(): void {
+    for (const emitter of this.emitters) {
+      this.onBeforeUpdate?.(emitter);
+      emitter.update();
+      this.onAfterUpdate?.(emitter);
+    }
+  }
+
+  /**
+   * Schedule the next frame of the update loop. The loop stops while
+   * no emitters are registered.
+   * 
+   * @returns {void}
+   */
+  protected schedule(): void {
+    if (this.scheduled || !this.autoUpdate || this.emitters.size === 0)
+      return;
+
+    this.scheduled = true;
+    this.clock.requestFrame(() => {
+      this.scheduled = false;
+      if (!this.autoUpdate)
+        return;
+      this.update();
+      this.schedule();
+    });
+  }
+}
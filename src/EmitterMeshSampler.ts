@@ -0,0 +1,318 @@
+import * as THREE from "three";
+import Emitter from "./Emitter.js";
+import type EmitterInstance from "./EmitterInstance.js";
+import EmitterRandom from "./EmitterRandom.js";
+import type { Vec3 } from "./EmitterBehaviors.js";
+
+/**
+ * A point sampled by an `EmitterMeshSampler`.
+ */
+export interface IEmitterMeshSample {
+
+  /**
+   * The position of the point.
+   */
+  position: Vec3;
+
+  /**
+   * The normal of the surface at the point. `[0, 0, 0]` for points
+   * sampled inside the volume.
+   */
+  normal: Vec3;
+
+  /**
+   * The UV coordinates of the surface at the point. `[0, 0]` for points
+   * sampled inside the volume or if the geometry has no `uv` attribute.
+   */
+  uv: [number, number];
+}
+
+/**
+ * Options for `EmitterMeshSampler.fill()`.
+ */
+export interface IEmitterMeshFillOptions {
+
+  /**
+   * The attribute to write the sampled positions to.
+   */
+  position?: string;
+
+  /**
+   * The attribute to write the sampled normals to.
+   */
+  normal?: string;
+
+  /**
+   * The attribute to write the sampled UV coordinates to.
+   */
+  uv?: string;
+
+  /**
+   * Sample points inside the volume of the mesh instead of its surface.
+   * The mesh has to be closed. Default is `false`.
+   */
+  volume?: boolean;
+}
+
+/**
+ * Distributes particles over the surface or inside the volume of an
+ * arbitrary `THREE.BufferGeometry`, e.g. to let a character dissolve
+ * into particles. Triangles are picked weighted by their area, so the
+ * particles are distributed uniformly. Pass a `THREE.Mesh` to respect its
+ * morph targets and skinning, see `update()`.
+ *
+ * ```
+ * const random = new EmitterRandom(7);
+ * const sampler = new EmitterMeshSampler(new THREE.TorusKnotGeometry(), random);
+ *
+ * sampler.fill(emitter, { position: "emitterPosition", normal: "initialVelocity" });
+ * sampler.fill(instance, { position: "emitterPosition", uv: "surfaceUv" });
+ * ```
+ */
+export default class EmitterMeshSampler {
+
+  /**
+   * The sampled geometry.
+   */
+  public geometry: THREE.BufferGeometry;
+
+  /**
+   * The mesh whose morphed and skinned positions are sampled, if
+   * created from a mesh.
+   */
+  public mesh: THREE.Mesh | null = null;
+
+  /**
+   * The random number generator.
+   */
+  public random: EmitterRandom;
+
+  /**
+   * The vertex positions as of the last `update()`.
+   */
+  protected positions: Float32Array = new Float32Array();
+
+  /**
+   * The vertex indices of each triangle.
+   */
+  protected triangles: Uint32Array = new Uint32Array();
+
+  /**
+   * The accumulated areas of the triangles, used to pick triangles
+   * weighted by their area.
+   */
+  protected areas: Float64Array = new Float64Array();
+
+  /**
+   * Create an EmitterMeshSampler.
+   *
+   * @param {THREE.BufferGeometry | THREE.Mesh} source - The geometry or
+   *   the mesh to sample.
+   * @param {EmitterRandom} [random] - The random number generator.
+   *   Defaults to a randomly seeded one.
+   */
+  constructor(source: THREE.BufferGeometry | THREE.Mesh, random: EmitterRandom = new EmitterRandom()) {
+    if (source instanceof THREE.Mesh) {
+      this.mesh = source;
+      this.geometry = source.geometry;
+    }
+    else {
+      this.geometry = source;
+    }
+    this.random = random;
+    this.update();
+  }
+
+  /**
+   * Read the vertex positions and re-calculate the triangle areas. Call
+   * it after the geometry changed or the mesh was posed/morphed.
+   *
+   * ```
+   * mixer.update(delta);
+   * sampler.update().fill(instance, { position: "emitterPosition" });
+   * ```
+   *
+   * @returns {this}
+   */
+  public update(): this {
+    const position = this.geometry.getAttribute("position");
+    const vertex = new THREE.Vector3();
+    this.positions = new Float32Array(position.count * 3);
+    for (let i = 0; i < position.count; i++) {
+      if (this.mesh)
+        this.mesh.getVertexPosition(i, vertex);
+      else
+        vertex.fromBufferAttribute(position, i);
+      vertex.toArray(this.positions, i * 3);
+    }
+
+    const index = this.geometry.getIndex();
+    const count = Math.floor((index ? index.count : position.count) / 3) * 3;
+    this.triangles = new Uint32Array(count);
+    for (let i = 0; i < count; i++)
+      this.triangles[i] = index ? index.getX(i) : i;
+
+    const [a, b, c] = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+    const triangle = new THREE.Triangle(a, b, c);
+    this.areas = new Float64Array(count / 3);
+    let total = 0;
+    for (let i = 0; i < this.areas.length; i++) {
+      this.getTriangle(i, a, b, c);
+      total += triangle.getArea();
+      this.areas[i] = total;
+    }
+    return this;
+  }
+
+  /**
+   * Sample a uniformly distributed point on the surface.
+   *
+   * @returns {IEmitterMeshSample}
+   */
+  public sample(): IEmitterMeshSample {
+    if (this.areas.length === 0)
+      return { position: [0, 0, 0], normal: [0, 0, 0], uv: [0, 0] };
+
+    // Binary search for the triangle covering the picked area
+    const area = this.random.next() * this.areas[this.areas.length - 1];
+    let low = 0;
+    let high = this.areas.length - 1;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.areas[mid] <= area)
+        low = mid + 1;
+      else
+        high = mid;
+    }
+
+    // Uniform barycentric coordinates
+    let u = this.random.next();
+    let v = this.random.next();
+    if (u + v > 1) {
+      u = 1 - u;
+      v = 1 - v;
+    }
+    const w = 1 - u - v;
+
+    const [a, b, c] = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+    this.getTriangle(low, a, b, c);
+    const position = new THREE.Vector3()
+      .addScaledVector(a, w)
+      .addScaledVector(b, u)
+      .addScaledVector(c, v);
+
+    // Interpolate the vertex normals unless the mesh is deformed
+    const normalAttr = this.geometry.getAttribute("normal") as THREE.BufferAttribute | undefined;
+    const normal = normalAttr && !this.mesh ?
+      this.interpolate(normalAttr, low, w, u, v, new THREE.Vector3()).normalize() :
+      THREE.Triangle.getNormal(a, b, c, new THREE.Vector3());
+
+    const uvAttr = this.geometry.getAttribute("uv") as THREE.BufferAttribute | undefined;
+    const uv = uvAttr ? this.interpolate(uvAttr, low, w, u, v, new THREE.Vector3()) : new THREE.Vector3();
+
+    return {
+      position: position.toArray(),
+      normal: normal.toArray(),
+      uv: [uv.x, uv.y],
+    };
+  }
+
+  /**
+   * Sample a uniformly distributed point inside the volume. The mesh
+   * has to be closed. Falls back to a point on the surface if no point
+   * inside the volume is found.
+   *
+   * @returns {IEmitterMeshSample}
+   */
+  public sampleVolume(): IEmitterMeshSample {
+    const box = new THREE.Box3().setFromArray(this.positions);
+    const ray = new THREE.Ray(new THREE.Vector3(), new THREE.Vector3(1, 0, 0));
+    const [a, b, c] = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+    const target = new THREE.Vector3();
+
+    // Rejection sampling, points inside hit the surface an odd number of times
+    for (let attempt = 0; attempt < 1000 && !box.isEmpty(); attempt++) {
+      ray.origin.set(
+        this.random.range(box.min.x, box.max.x),
+        this.random.range(box.min.y, box.max.y),
+        this.random.range(box.min.z, box.max.z),
+      );
+      let hits = 0;
+      for (let i = 0; i < this.areas.length; i++) {
+        this.getTriangle(i, a, b, c);
+        if (ray.intersectTriangle(a, b, c, false, target))
+          hits++;
+      }
+      if (hits % 2 === 1)
+        return { position: ray.origin.toArray(), normal: [0, 0, 0], uv: [0, 0] };
+    }
+    return { ...this.sample(), normal: [0, 0, 0], uv: [0, 0] };
+  }
+
+  /**
+   * Fill attributes of an Emitter or EmitterInstance with sampled
+   * points. Each particle gets a distinct point, its position, normal
+   * and UV coordinates are written to the given attributes.
+   *
+   * ```
+   * sampler.fill(emitter, {
+   *   position: "emitterPosition",
+   *   normal: "initialVelocity",
+   * });
+   * ```
+   *
+   * @param {Emitter | EmitterInstance} target - The Emitter or
+   *   EmitterInstance.
+   * @param {IEmitterMeshFillOptions} options - The attributes to fill.
+   * @returns {this}
+   */
+  public fill(target: Emitter | EmitterInstance, options: IEmitterMeshFillOptions): this {
+    const amount = target instanceof Emitter ? target.maxParticles : target.particleAmount;
+    const samples = Array.from({ length: amount }, () => options.volume ? this.sampleVolume() : this.sample());
+
+    if (options.position)
+      target.fillAttribute(options.position, (i) => samples[i % amount].position);
+    if (options.normal)
+      target.fillAttribute(options.normal, (i) => samples[i % amount].normal);
+    if (options.uv)
+      target.fillAttribute(options.uv, (i) => samples[i % amount].uv);
+    return this;
+  }
+
+  /**
+   * Read the vertex positions of a triangle.
+   *
+   * @param {number} index - The index of the triangle.
+   * @param {THREE.Vector3} a - The first vertex.
+   * @param {THREE.Vector3} b - The second vertex.
+   * @param {THREE.Vector3} c - The third vertex.
+   * @returns {void}
+   */
+  protected getTriangle(index: number, a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): void {
+    a.fromArray(this.positions, this.triangles[index * 3] * 3);
+    b.fromArray(this.positions, this.triangles[index * 3 + 1] * 3);
+    c.fromArray(this.positions, this.triangles[index * 3 + 2] * 3);
+  }
+
+  /**
+   * Interpolate a vertex attribute on a triangle.
+   *
+   * @param {THREE.BufferAttribute} attribute - The attribute.
+   * @param {number} index - The index of the triangle.
+   * @param {number} w - The weight of the first vertex.
+   * @param {number} u - The weight of the second vertex.
+   * @param {number} v - The weight of the third vertex.
+   * @param {THREE.Vector3} target - The result.
+   * @returns {THREE.Vector3}
+   */
+  protected interpolate(attribute: THREE.BufferAttribute, index: number, w: number, u: number, v: number, target: THREE.Vector3): THREE.Vector3 {
+    const value = new THREE.Vector3();
+    target.set(0, 0, 0);
+    for (const [corner, weight] of [w, u, v].entries()) {
+      const vertex = this.triangles[index * 3 + corner];
+      value.set(attribute.getX(vertex), attribute.itemSize > 1 ? attribute.getY(vertex) : 0, attribute.itemSize > 2 ? attribute.getZ(vertex) : 0);
+      target.addScaledVector(value, weight);
+    }
+    return target;
+  }
+}
@@ -0,0 +1,234 @@
+import * as THREE from "three";
+import Emitter, { type IEmitterBoundsOptions, type IEmitterFlipbookOptions } from "./Emitter.js";
+import type { IEmitterEmissionJSON } from "./EmitterEmission.js";
+import type { IEmitterBehavior } from "./EmitterBehaviors.js";
+import type { IEmitterCurve } from "./EmitterCurves.js";
+import type { IEmitterSimulationOptions } from "./EmitterSimulation.js";
+import EmitterError from "./EmitterError.js";
+
+/**
+ * The version of the emitter JSON format written by `Emitter.toJSON()`.
+ */
+export const EMITTER_JSON_VERSION = 1;
+
+/**
+ * The serialized state of an `EmitterInstance`. Its attribute values
+ * are part of the Emitter's serialized geometry.
+ */
+export interface IEmitterInstanceJSON {
+
+  /**
+   * The index of the first particle slot of the EmitterInstance.
+   */
+  offset: number;
+
+  /**
+   * The amount of particles in the EmitterInstance.
+   */
+  particleAmount: number;
+
+  /**
+   * The local time of the EmitterInstance in seconds.
+   */
+  time: number;
+
+  /**
+   * The playback speed of the EmitterInstance's local time.
+   */
+  speed: number;
+
+  /**
+   * Indicates whether the EmitterInstance's local time is paused.
+   */
+  paused: boolean;
+
+  /**
+   * The emission model of the EmitterInstance.
+   */
+  emission: IEmitterEmissionJSON | null;
+
+  /**
+   * The values of the per-instance uniforms set on the EmitterInstance.
+   */
+  uniforms?: Record<string, number[]>;
+
+  /**
+   * The explicit bounds of the EmitterInstance as the minimum followed
+   * by the maximum corner.
+   */
+  bounds?: number[] | null;
+
+  /**
+   * Set if the EmitterInstance runs an effect created by
+   * `Emitter.spawn()`.
+   */
+  effect?: {
+
+    /**
+     * The duration of the effect in seconds.
+     */
+    duration: number;
+
+    /**
+     * The Emitter's time when the effect was spawned.
+     */
+    startTime: number;
+  };
+}
+
+/**
+ * The emitter specific part of the JSON written by `Emitter.toJSON()`,
+ * stored as `object.emitter`. Shaders, uniforms, defines, the attribute
+ * layout and values and the curve atlas are stored in the regular THREE
+ * geometry and material JSON.
+ *
+ * Function curves are stored as sampled keyframes and the uniforms of
+ * custom behaviors are linked to the material's uniforms when loading.
+ */
+export interface IEmitterJSON {
+
+  /**
+   * The version of the format, see `EMITTER_JSON_VERSION`.
+   */
+  version: number;
+
+  /**
+   * The maximum number of particles.
+   */
+  maxParticles: number;
+
+  /**
+   * The number of particle slots drawn, see `Emitter.particleAmount`.
+   * Missing in JSON written before it was stored, treated as `0`.
+   */
+  particleAmount?: number;
+
+  /**
+   * Indicates whether the emitter auto-updates.
+   */
+  autoUpdate: boolean;
+
+  /**
+   * Indicates whether the emitter grows its capacity automatically.
+   */
+  autoGrow: boolean;
+
+  /**
+   * The speed at which the `time` uniform advances.
+   */
+  timeScale: number;
+
+  /**
+   * Indicates whether the emitter is paused.
+   */
+  paused: boolean;
+
+  /**
+   * The emission model of the emitter.
+   */
+  emission: IEmitterEmissionJSON | null;
+
+  /**
+   * The behaviors compiled into the shaders.
+   */
+  behaviors: IEmitterBehavior[];
+
+  /**
+   * The curves baked into the curve atlas.
+   */
+  curves: Record<string, IEmitterCurve>;
+
+  /**
+   * The declared per-instance uniforms and their default values.
+   */
+  instanceUniforms?: Record<string, number[]>;
+
+  /**
+   * The options of the bounding volume computation.
+   */
+  bounds?: Required<IEmitterBoundsOptions> | null;
+
+  /**
+   * The options of the CPU simulation.
+   */
+  simulation?: IEmitterSimulationOptions | null;
+
+  /**
+   * The options of the flipbook animation. The texture is part of the
+   * material's uniforms.
+   */
+  flipbook?: Omit<Required<IEmitterFlipbookOptions>, "texture" | "random"> | null;
+
+  /**
+   * The EmitterInstances running on the emitter.
+   */
+  instances: IEmitterInstanceJSON[];
+}
+
+/**
+ * A `THREE.ObjectLoader` which restores Emitters, including their
+ * EmitterInstances and effects, from JSON written by `Emitter.toJSON()`.
+ * Handles Emitters at any depth of the loaded scene graph, all other
+ * objects are loaded as usual.
+ *
+ * ```
+ * const json = scene.toJSON();
+ *
+ * const loader = new EmitterObjectLoader();
+ * const loadedScene = loader.parse(json);
+ *
+ * // or
+ * loader.load("scene.json", (loadedScene) => {
+ *   scene.add(loadedScene);
+ * });
+ * ```
+ */
+export default class EmitterObjectLoader extends THREE.ObjectLoader {
+
+  /**
+   * Parse a single object and its children. Used internally by
+   * `THREE.ObjectLoader`.
+   *
+   * @param {unknown} data - The JSON of the object.
+   * @param {Record<string, THREE.BufferGeometry>} geometries - The
+   *   parsed geometries.
+   * @param {Record<string, THREE.Material>} materials - The parsed
+   *   materials.
+   * @param {unknown[]} rest - The parsed textures and animations.
+   * @returns {THREE.Object3D}
+   */
+  public override parseObject(
+    data: unknown,
+    geometries: Record<string, THREE.InstancedBufferGeometry | THREE.BufferGeometry>,
+    materials: Record<string, THREE.Material>,
+    ...rest: unknown[]
+  ): THREE.Object3D {
+    // The typings are missing the textures parameter
+    const parseObject = super.parseObject.bind(this) as (...args: unknown[]) => THREE.Object3D;
+    const json = data as THREE.MeshJSONObject & { emitter?: IEmitterJSON };
+    if (json.type !== "Emitter" || !json.emitter)
+      return parseObject(data, geometries, materials, ...rest);
+
+    // Let THREE parse the transform, children etc.
+    const object = parseObject({ ...json, type: "Object3D" }, geometries, materials, ...rest);
+    const geometry = geometries[json.geometry];
+    const material = typeof json.material === "string" ? materials[json.material] : undefined;
+    if (!(geometry instanceof THREE.InstancedBufferGeometry) || !(material instanceof THREE.ShaderMaterial))
+      throw new EmitterError("INVALID_JSON", `The emitter ${json.uuid} is missing its geometry or material.`);
+    if (json.emitter.version > EMITTER_JSON_VERSION)
+      throw new EmitterError("UNSUPPORTED_JSON_VERSION", `Unsupported emitter JSON version ${String(json.emitter.version)}.`);
+
+    const emitter = new Emitter({ maxParticles: json.emitter.maxParticles, autoUpdate: false });
+    emitter.geometry.dispose();
+    emitter.material.dispose();
+    emitter.geometry = geometry;
+    emitter.material = material;
+
+    THREE.Object3D.prototype.copy.call(emitter, object, false);
+    emitter.uuid = object.uuid;
+    for (const child of [...object.children])
+      emitter.add(child);
+
+    return emitter.restore(json.emitter);
+  }
+}
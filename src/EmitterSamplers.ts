@@ -0,0 +1,320 @@
+import EmitterRandom from "./EmitterRandom.js";
+import type { Vec3 } from "./EmitterBehaviors.js";
+
+/**
+ * A function returning a value per particle, e.g. a position. Plugs
+ * directly into `Emitter.fillAttribute()` and
+ * `EmitterInstance.fillAttribute()`.
+ */
+export type IEmitterSampler<TItem extends number[] = number[]> = (index: number) => TItem;
+
+/**
+ * Options for `boxSampler()`.
+ */
+export interface IBoxSamplerOptions {
+
+  /**
+   * The minimum corner of the box.
+   */
+  min: Vec3;
+
+  /**
+   * The maximum corner of the box.
+   */
+  max: Vec3;
+}
+
+/**
+ * Options for `sphereSampler()`.
+ */
+export interface ISphereSamplerOptions {
+
+  /**
+   * The radius of the sphere.
+   */
+  radius: number;
+
+  /**
+   * The center of the sphere. Default is `[0, 0, 0]`.
+   */
+  center?: Vec3;
+
+  /**
+   * Sample the surface instead of the volume. Default is `false`.
+   */
+  surface?: boolean;
+}
+
+/**
+ * Options for `discSampler()`.
+ */
+export interface IDiscSamplerOptions {
+
+  /**
+   * The radius of the disc.
+   */
+  radius: number;
+
+  /**
+   * The inner radius of the disc, e.g. to sample a ring.
+   * Default is `0`.
+   */
+  innerRadius?: number;
+
+  /**
+   * The center of the disc. Default is `[0, 0, 0]`.
+   */
+  center?: Vec3;
+}
+
+/**
+ * Options for `coneSampler()`.
+ */
+export interface IConeSamplerOptions {
+
+  /**
+   * The opening angle between the axis and the cone's side in radians.
+   */
+  angle: number;
+
+  /**
+   * The distance from the apex. Default is `1`.
+   */
+  radius?: number;
+
+  /**
+   * The apex of the cone. Default is `[0, 0, 0]`.
+   */
+  center?: Vec3;
+
+  /**
+   * Sample points at exactly `radius` from the apex, e.g. directions
+   * for velocities. Default is `false`.
+   */
+  surface?: boolean;
+}
+
+/**
+ * Options for `lineSampler()`.
+ */
+export interface ILineSamplerOptions {
+
+  /**
+   * The start of the line.
+   */
+  start: Vec3;
+
+  /**
+   * The end of the line.
+   */
+  end: Vec3;
+}
+
+/**
+ * Options for `torusSampler()`.
+ */
+export interface ITorusSamplerOptions {
+
+  /**
+   * The distance from the center of the torus to the center of the
+   * tube.
+   */
+  radius: number;
+
+  /**
+   * The radius of the tube.
+   */
+  tube: number;
+
+  /**
+   * The center of the torus. Default is `[0, 0, 0]`.
+   */
+  center?: Vec3;
+
+  /**
+   * Sample the surface instead of the volume. Default is `false`.
+   */
+  surface?: boolean;
+}
+
+/**
+ * Offset a point by a center.
+ *
+ * @param {Vec3} point - The point.
+ * @param {Vec3} [center] - The center.
+ * @returns {Vec3}
+ */
+function translate(point: Vec3, center?: Vec3): Vec3 {
+  return center ? [point[0] + center[0], point[1] + center[1], point[2] + center[2]] : point;
+}
+
+/**
+ * Sample a uniformly distributed direction within `angle` of `+Y`.
+ *
+ * @param {number} angle - The maximum angle in radians.
+ * @param {EmitterRandom} random - The random number generator.
+ * @returns {Vec3}
+ */
+function sampleDirection(angle: number, random: EmitterRandom): Vec3 {
+  const y = 1 - random.next() * (1 - Math.cos(angle));
+  const r = Math.sqrt(Math.max(0, 1 - y * y));
+  const phi = random.next() * Math.PI * 2;
+  return [r * Math.cos(phi), y, r * Math.sin(phi)];
+}
+
+/**
+ * Create a sampler returning the same value for each particle.
+ *
+ * ```
+ * emitter.fillAttribute("emitterPosition", pointSampler([0, 1, 0]));
+ * ```
+ *
+ * @param {number[]} point - The value.
+ * @returns {IEmitterSampler}
+ */
+export function pointSampler<TItem extends number[]>(point: TItem): IEmitterSampler<TItem> {
+  return () => point.slice() as TItem;
+}
+
+/**
+ * Create a sampler returning uniformly distributed points inside a box.
+ *
+ * ```
+ * const random = new EmitterRandom(1);
+ * emitter.fillAttribute("emitterPosition", boxSampler({ min: [-1, 0, -1], max: [1, 2, 1] }, random));
+ * ```
+ *
+ * @param {IBoxSamplerOptions} options - The options.
+ * @param {EmitterRandom} [random] - The random number generator.
+ *   Defaults to a randomly seeded one.
+ * @returns {IEmitterSampler<Vec3>}
+ */
+export function boxSampler(options: IBoxSamplerOptions, random: EmitterRandom = new EmitterRandom()): IEmitterSampler<Vec3> {
+  const { min, max } = options;
+  return () => [random.range(min[0], max[0]), random.range(min[1], max[1]), random.range(min[2], max[2])];
+}
+
+/**
+ * Create a sampler returning uniformly distributed points inside or on
+ * a sphere.
+ *
+ * ```
+ * const random = new EmitterRandom(1);
+ * emitter.fillAttribute("emitterPosition", sphereSampler({ radius: 2, surface: true }, random));
+ * ```
+ *
+ * @param {ISphereSamplerOptions} options - The options.
+ * @param {EmitterRandom} [random] - The random number generator.
+ *   Defaults to a randomly seeded one.
+ * @returns {IEmitterSampler<Vec3>}
+ */
+export function sphereSampler(options: ISphereSamplerOptions, random: EmitterRandom = new EmitterRandom()): IEmitterSampler<Vec3> {
+  return () => {
+    const [x, y, z] = sampleDirection(Math.PI, random);
+    const r = options.surface ? options.radius : options.radius * Math.cbrt(random.next());
+    return translate([x * r, y * r, z * r], options.center);
+  };
+}
+
+/**
+ * Create a sampler returning uniformly distributed points on a disc or
+ * ring in the XZ plane.
+ *
+ * ```
+ * const random = new EmitterRandom(1);
+ * emitter.fillAttribute("emitterPosition", discSampler({ radius: 2, innerRadius: 1.5 }, random));
+ * ```
+ *
+ * @param {IDiscSamplerOptions} options - The options.
+ * @param {EmitterRandom} [random] - The random number generator.
+ *   Defaults to a randomly seeded one.
+ * @returns {IEmitterSampler<Vec3>}
+ */
+export function discSampler(options: IDiscSamplerOptions, random: EmitterRandom = new EmitterRandom()): IEmitterSampler<Vec3> {
+  const inner = options.innerRadius ?? 0;
+  return () => {
+    const r = Math.sqrt(random.range(inner * inner, options.radius * options.radius));
+    const phi = random.next() * Math.PI * 2;
+    return translate([r * Math.cos(phi), 0, r * Math.sin(phi)], options.center);
+  };
+}
+
+/**
+ * Create a sampler returning uniformly distributed points inside a cone
+ * opening along `+Y`, i.e. a spherical sector. With `surface` set, the
+ * points are directions scaled by `radius`, e.g. for velocities.
+ *
+ * ```
+ * const random = new EmitterRandom(1);
+ * emitter.fillAttribute("initialVelocity", coneSampler({ angle: Math.PI / 8, radius: 5, surface: true }, random));
+ * ```
+ *
+ * @param {IConeSamplerOptions} options - The options.
+ * @param {EmitterRandom} [random] - The random number generator.
+ *   Defaults to a randomly seeded one.
+ * @returns {IEmitterSampler<Vec3>}
+ */
+export function coneSampler(options: IConeSamplerOptions, random: EmitterRandom = new EmitterRandom()): IEmitterSampler<Vec3> {
+  const radius = options.radius ?? 1;
+  return () => {
+    const [x, y, z] = sampleDirection(options.angle, random);
+    const r = options.surface ? radius : radius * Math.cbrt(random.next());
+    return translate([x * r, y * r, z * r], options.center);
+  };
+}
+
+/**
+ * Create a sampler returning uniformly distributed points on a line.
+ *
+ * ```
+ * const random = new EmitterRandom(1);
+ * emitter.fillAttribute("emitterPosition", lineSampler({ start: [-5, 0, 0], end: [5, 0, 0] }, random));
+ * ```
+ *
+ * @param {ILineSamplerOptions} options - The options.
+ * @param {EmitterRandom} [random] - The random number generator.
+ *   Defaults to a randomly seeded one.
+ * @returns {IEmitterSampler<Vec3>}
+ */
+export function lineSampler(options: ILineSamplerOptions, random: EmitterRandom = new EmitterRandom()): IEmitterSampler<Vec3> {
+  const { start, end } = options;
+  return () => {
+    const t = random.next();
+    return [
+      start[0] + (end[0] - start[0]) * t,
+      start[1] + (end[1] - start[1]) * t,
+      start[2] + (end[2] - start[2]) * t,
+    ];
+  };
+}
+
+/**
+ * Create a sampler returning uniformly distributed points inside or on
+ * a torus lying in the XZ plane.
+ *
+ * ```
+ * const random = new EmitterRandom(1);
+ * emitter.fillAttribute("emitterPosition", torusSampler({ radius: 2, tube: 0.25 }, random));
+ * ```
+ *
+ * @param {ITorusSamplerOptions} options - The options.
+ * @param {EmitterRandom} [random] - The random number generator.
+ *   Defaults to a randomly seeded one.
+ * @returns {IEmitterSampler<Vec3>}
+ */
+export function torusSampler(options: ITorusSamplerOptions, random: EmitterRandom = new EmitterRandom()): IEmitterSampler<Vec3> {
+  const { radius, tube } = options;
+  return () => {
+    // Rejection sampling, the outer side of the tube covers more area
+    let r: number;
+    let theta: number;
+    do {
+      r = options.surface ? tube : tube * Math.sqrt(random.next());
+      theta = random.next() * Math.PI * 2;
+    } while (random.next() * (radius + r) > radius + r * Math.cos(theta));
+
+    const phi = random.next() * Math.PI * 2;
+    const distance = radius + r * Math.cos(theta);
+    return translate([distance * Math.cos(phi), r * Math.sin(theta), distance * Math.sin(phi)], options.center);
+  };
+}
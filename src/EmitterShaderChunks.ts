@@ -0,0 +1,200 @@
+/**
+ * GLSL chunks provided by three-emitter.
+ * Can be included in the vertex or fragment shader of any `Emitter`
+ * via `#include <name>`. Chunks are resolved before THREE resolves its
+ * own shader chunks.
+ *
+ * ```
+ * const emitter = new Emitter({
+ *   vert: `
+ *     precision highp float;
+ *     uniform float time;
+ *     #include <emitter_lifecycle>
+ *
+ *     void main() {
+ *       float age = particleAge(time);
+ *       // ...
+ *     }
+ *   `
+ * });
+ * ```
+ */
+const EmitterShaderChunks: Record<string, string> = {
+
+  /**
+   * Attributes and helpers for particles emitted by `EmitterEmission`.
+   * `particleAge()` returns the normalized age of a particle from `0.0`
+   * (born) to `1.0` (dead). Particles that were never emitted are dead.
+   * Particles of EmitterInstances are born in the instance's local time,
+   * pass `instanceTime(time)` for them.
+   */
+  emitter_lifecycle: /* glsl */`
+    attribute float birthTime;
+    attribute float lifetime;
+
+    float particleAge(float time) {
+      return lifetime > 0.0 ? clamp((time - birthTime) / lifetime, 0.0, 1.0) : 1.0;
+    }
+
+    bool particleAlive(float time) {
+      return lifetime > 0.0 && time >= birthTime && time < birthTime + lifetime;
+    }
+  `,
+
+  /**
+   * Attributes and helpers for the local time of EmitterInstances.
+   * `instanceTime()` converts the Emitter's `time` uniform into the
+   * local time of the particle's EmitterInstance, respecting its start
+   * time, speed and pause state. `instanceSlotActive()` is `false` for
+   * released particle slots between EmitterInstances, which are culled
+   * automatically.
+   */
+  emitter_instance: /* glsl */`
+    attribute vec2 instancePlayback;
+    attribute float instanceActive;
+
+    float instanceTime(float time) {
+      return instancePlayback.x + time * instancePlayback.y;
+    }
+
+    bool instanceSlotActive() {
+      return instanceActive > 0.5;
+    }
+  `,
+
+  /**
+   * Uniforms and helpers for curves baked by `Emitter.setCurves()`.
+   * `sampleCurve()` returns the linearly interpolated RGBA value of a
+   * curve at `t` in `[0, 1]`. Scalar curves are stored in all channels.
+   * The row of each curve is provided as a define, e.g.
+   * `sampleCurve(CURVE_SIZE, age).x`.
+   */
+  emitter_curves: /* glsl */`
+    uniform sampler2D curveAtlas;
+    uniform vec2 curveAtlasSize;
+
+    vec4 sampleCurve(float row, float t) {
+      float x = clamp(t, 0.0, 1.0) * (curveAtlasSize.x - 1.0);
+      float v = (row + 0.5) / curveAtlasSize.y;
+      vec4 a = texture2D(curveAtlas, vec2((floor(x) + 0.5) / curveAtlasSize.x, v));
+      vec4 b = texture2D(curveAtlas, vec2((min(floor(x) + 1.0, curveAtlasSize.x - 1.0) + 0.5) / curveAtlasSize.x, v));
+      return mix(a, b, fract(x));
+    }
+  `,
+
+  /**
+   * Attributes, uniforms and helpers for the flipbook set by
+   * `Emitter.setFlipbook()`, vertex shader part. `flipbookFrame()`
+   * computes the frames shown at a playback time in seconds, e.g. the
+   * particle's age, and passes them to the fragment shader. Frames are
+   * counted from the top left of the atlas.
+   */
+  emitter_flipbook_vertex: /* glsl */`
+    attribute float flipbookOffset;
+    uniform vec2 flipbookGrid;
+    uniform float flipbookFrames;
+    uniform float flipbookFps;
+    uniform float flipbookLoop;
+    varying vec2 vFlipbookUvA;
+    varying vec2 vFlipbookUvB;
+    varying float vFlipbookMix;
+
+    vec2 flipbookUv(float frame, vec2 uv) {
+      float column = mod(frame, flipbookGrid.x);
+      float row = flipbookGrid.y - 1.0 - floor(frame / flipbookGrid.x);
+      return (vec2(column, row) + uv) / flipbookGrid;
+    }
+
+    void flipbookFrame(vec2 uv, float time) {
+      float frame = max(time, 0.0) * flipbookFps + flipbookOffset;
+      float last = flipbookFrames - 1.0;
+      float a = flipbookLoop > 0.5 ? mod(floor(frame), flipbookFrames) : min(floor(frame), last);
+      float b = flipbookLoop > 0.5 ? mod(a + 1.0, flipbookFrames) : min(a + 1.0, last);
+      vFlipbookUvA = flipbookUv(a, uv);
+      vFlipbookUvB = flipbookUv(b, uv);
+      vFlipbookMix = fract(frame);
+    }
+  `,
+
+  /**
+   * Uniforms and helpers for the flipbook set by `Emitter.setFlipbook()`,
+   * fragment shader part. `sampleFlipbook()` samples the frames computed
+   * by `flipbookFrame()` in the vertex shader, blended if enabled.
+   */
+  emitter_flipbook_fragment: /* glsl */`
+    uniform sampler2D flipbookTexture;
+    uniform float flipbookBlend;
+    varying vec2 vFlipbookUvA;
+    varying vec2 vFlipbookUvB;
+    varying float vFlipbookMix;
+
+    vec4 sampleFlipbook() {
+      vec4 a = texture2D(flipbookTexture, vFlipbookUvA);
+      vec4 b = texture2D(flipbookTexture, vFlipbookUvB);
+      return mix(a, b, vFlipbookMix * flipbookBlend);
+    }
+  `,
+
+  /**
+   * Declarations for scene fog, clipping planes and the logarithmic
+   * depth buffer, vertex shader part. Only for emitters with the `raw`
+   * option set to `false`, includes THREE's `common` chunk.
+   */
+  emitter_scene_pars_vertex: /* glsl */`
+    #include <common>
+    #include <fog_pars_vertex>
+    #include <logdepthbuf_pars_vertex>
+    #include <clipping_planes_pars_vertex>
+  `,
+
+  /**
+   * Applies scene fog, clipping planes and the logarithmic depth buffer
+   * in the vertex shader. Include it at the end of `main()`, after
+   * `gl_Position` was written. Expects the view space position in a
+   * `vec4 mvPosition`.
+   */
+  emitter_scene_vertex: /* glsl */`
+    #include <logdepthbuf_vertex>
+    #include <clipping_planes_vertex>
+    #include <fog_vertex>
+  `,
+
+  /**
+   * Declarations for scene fog, clipping planes and the logarithmic
+   * depth buffer, fragment shader part. Only for emitters with the `raw`
+   * option set to `false`.
+   */
+  emitter_scene_pars_fragment: /* glsl */`
+    #include <fog_pars_fragment>
+    #include <logdepthbuf_pars_fragment>
+    #include <clipping_planes_pars_fragment>
+  `,
+
+  /**
+   * Applies clipping planes, the logarithmic depth buffer, tone mapping,
+   * the output color space and scene fog in the fragment shader. Include
+   * it at the end of `main()`, after `gl_FragColor` was written.
+   */
+  emitter_scene_fragment: /* glsl */`
+    #include <clipping_planes_fragment>
+    #include <logdepthbuf_fragment>
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+  `,
+};
+
+/**
+ * Resolve all `#include <name>` statements referencing chunks in
+ * `EmitterShaderChunks`. Other includes are left untouched.
+ *
+ * @param {string} shader - The GLSL source.
+ * @returns {string} The resolved GLSL source.
+ */
+export function resolveEmitterShaderChunks(shader: string): string {
+  return shader.replace(/^[ \t]*#include +<([\w\d./]+)>/gm, (match: string, name: string) =>
+    name in EmitterShaderChunks ? resolveEmitterShaderChunks(EmitterShaderChunks[name]) : match
+  );
+}
+
+export default EmitterShaderChunks;
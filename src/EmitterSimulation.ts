@@ -0,0 +1,602 @@
+import * as THREE from "three";
+import type Emitter from "./Emitter.js";
+import type EmitterInstance from "./EmitterInstance.js";
+import type { Vec3 } from "./EmitterBehaviors.js";
+
+/**
+ * Accelerates particles constantly.
+ */
+export interface IGravityForce {
+  type: "gravity";
+
+  /**
+   * The acceleration in units per second squared.
+   */
+  value: Vec3;
+}
+
+/**
+ * Slows particles down proportionally to their velocity, like the
+ * `drag` behavior.
+ */
+export interface IDragForce {
+  type: "drag";
+
+  /**
+   * The drag coefficient. Higher values slow particles down faster.
+   */
+  value: number;
+}
+
+/**
+ * Accelerates particles towards a point. Negative strengths repel
+ * particles.
+ */
+export interface IAttractorForce {
+  type: "attractor";
+
+  /**
+   * The point in the emitter's local space.
+   */
+  position: Vec3;
+
+  /**
+   * The acceleration at the point in units per second squared.
+   */
+  strength: number;
+
+  /**
+   * The distance at which the acceleration falls off to `0`.
+   * Default is `Infinity`, i.e. no falloff.
+   */
+  radius?: number;
+}
+
+/**
+ * Lets particles collide with an infinite plane. Particles are kept on
+ * the side the normal points to.
+ */
+export interface IPlaneForce {
+  type: "plane";
+
+  /**
+   * The normal of the plane.
+   */
+  normal: Vec3;
+
+  /**
+   * The signed distance of the plane from the origin, like
+   * `THREE.Plane.constant`. Default is `0`.
+   */
+  constant?: number;
+
+  /**
+   * The fraction of the velocity along the normal kept when bouncing
+   * off the plane. Default is `0`.
+   */
+  bounce?: number;
+
+  /**
+   * The fraction of the velocity along the plane lost on collision.
+   * Default is `0`.
+   */
+  friction?: number;
+}
+
+/**
+ * A force applied by an `EmitterSimulation`.
+ */
+export type IEmitterForce =
+  | IGravityForce
+  | IDragForce
+  | IAttractorForce
+  | IPlaneForce;
+
+/**
+ * Options for `EmitterSimulation`.
+ */
+export interface IEmitterSimulationOptions {
+
+  /**
+   * The forces applied to the particles.
+   */
+  forces?: IEmitterForce[];
+
+  /**
+   * The attribute receiving the simulated positions. Created if it
+   * doesn't exist. Default is `"particlePosition"`.
+   */
+  position?: string;
+
+  /**
+   * The attribute receiving the simulated velocities. Created if it
+   * doesn't exist. Default is `"particleVelocity"`.
+   */
+  velocity?: string;
+
+  /**
+   * The attribute particles start at, if it exists.
+   * Default is `"emitterPosition"`.
+   */
+  origin?: string;
+
+  /**
+   * The attribute holding the velocity particles start with, if it
+   * exists. Default is `"initialVelocity"`.
+   */
+  initialVelocity?: string;
+}
+
+/**
+ * The state of a simulated particle, see `EmitterSimulation`.
+ */
+export interface IEmitterParticle {
+
+  /**
+   * The index of the particle slot.
+   */
+  index: number;
+
+  /**
+   * The EmitterInstance owning the particle, `null` for particles
+   * emitted by the Emitter itself.
+   */
+  instance: EmitterInstance | null;
+
+  /**
+   * The position in the emitter's local space.
+   */
+  position: Vec3;
+
+  /**
+   * The velocity in units per second.
+   */
+  velocity: Vec3;
+
+  /**
+   * The time since the particle was born in seconds.
+   */
+  age: number;
+
+  /**
+   * Indicates whether the particle is alive. Particles are always alive
+   * if the emitter has no emission model.
+   */
+  alive: boolean;
+}
+
+/**
+ * A collision of a particle with an `IPlaneForce`.
+ */
+export interface IEmitterCollision {
+
+  /**
+   * The particle after the collision.
+   */
+  particle: IEmitterParticle;
+
+  /**
+   * The plane the particle collided with.
+   */
+  plane: IPlaneForce;
+}
+
+/**
+ * The particles simulated by a call of `EmitterSimulation.update()`,
+ * i.e. an EmitterInstance's range or the Emitter's own emission range.
+ */
+interface ISimulationRange {
+  instance: EmitterInstance | null;
+  start: number;
+  end: number;
+  time: number;
+  delta: number;
+}
+
+/**
+ * Copy a force, including its vectors.
+ *
+ * @param {IEmitterForce} force - The force.
+ * @returns {IEmitterForce}
+ */
+function copyForce(force: IEmitterForce): IEmitterForce {
+  switch (force.type) {
+    case "gravity":
+      return { ...force, value: [...force.value] };
+    case "drag":
+      return { ...force };
+    case "attractor":
+      return { ...force, position: [...force.position] };
+    case "plane":
+      return { ...force, normal: [...force.normal] };
+  }
+}
+
+/**
+ * Simulates particle motion on the CPU instead of the vertex shader, so
+ * the particle state can be queried, e.g. by gameplay code. Integrates
+ * the position and velocity of each living particle on each update of
+ * the Emitter, applying the given forces, and writes the results into
+ * the `position` and `velocity` attributes. Read them in the shader
+ * instead of computing the motion there.
+ *
+ * Particles are born at the `origin` attribute with the
+ * `initialVelocity` attribute, if these exist.
+ *
+ * ```
+ * const emitter = new Emitter({
+ *   maxParticles: 1000,
+ *   emission: { rate: 100, lifetime: 3 },
+ *   simulation: {
+ *     forces: [
+ *       { type: "gravity", value: [0, -9.81, 0] },
+ *       { type: "plane", normal: [0, 1, 0], bounce: 0.5 },
+ *     ]
+ *   },
+ *   vert: `
+ *     attribute vec3 particlePosition;
+ *     // ...
+ *   `
+ * });
+ *
+ * emitter.simulation?.onCollision(({ particle }) => playSound(particle.position));
+ * const nearby = emitter.simulation?.queryParticles(new THREE.Sphere(player.position, 2));
+ * ```
+ */
+export default class EmitterSimulation {
+
+  /**
+   * The simulated Emitter.
+   */
+  public emitter: Emitter;
+
+  /**
+   * The forces applied to the particles.
+   */
+  public forces: IEmitterForce[];
+
+  /**
+   * The attribute receiving the simulated positions.
+   */
+  public position: string;
+
+  /**
+   * The attribute receiving the simulated velocities.
+   */
+  public velocity: string;
+
+  /**
+   * The attribute particles start at.
+   */
+  public origin: string;
+
+  /**
+   * The attribute holding the velocity particles start with.
+   */
+  public initialVelocity: string;
+
+  /**
+   * The attribute storing the birth time each particle was initialized
+   * for and whether it was initialized. Moves with the particles when
+   * the Emitter is compacted or sorted.
+   */
+  protected state: string = "simulationState";
+
+  /**
+   * Callbacks invoked for collisions with planes.
+   */
+  protected collisionCallbacks: ((collision: IEmitterCollision) => void)[] = [];
+
+  /**
+   * Create an EmitterSimulation. Use `Emitter.setSimulation()` instead.
+   *
+   * @param {Emitter} emitter - The simulated Emitter.
+   * @param {IEmitterSimulationOptions} [options] - The options.
+   */
+  constructor(emitter: Emitter, options: IEmitterSimulationOptions = {}) {
+    this.emitter = emitter;
+    this.forces = options.forces ?? [];
+    this.position = options.position ?? "particlePosition";
+    this.velocity = options.velocity ?? "particleVelocity";
+    this.origin = options.origin ?? "emitterPosition";
+    this.initialVelocity = options.initialVelocity ?? "initialVelocity";
+
+    emitter.addParticleAttribute(this.position, 3);
+    emitter.addParticleAttribute(this.velocity, 3);
+    emitter.addParticleAttribute(this.state, 2);
+  }
+
+  /**
+   * Register a callback invoked when a particle collides with a plane.
+   *
+   * ```
+   * emitter.simulation?.onCollision(({ particle, plane }) => {
+   *   if (particle.velocity[1] < -5)
+   *     spawnSplash(particle.position);
+   * });
+   * ```
+   *
+   * @param {(collision: IEmitterCollision) => void} callback - The
+   *   callback.
+   * @returns {this}
+   */
+  public onCollision(callback: (collision: IEmitterCollision) => void): this {
+    this.collisionCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Get the state of a particle.
+   *
+   * ```
+   * const { position, velocity } = emitter.simulation.getParticle(42);
+   * ```
+   *
+   * @param {number} index - The index of the particle slot.
+   * @returns {IEmitterParticle}
+   */
+  public getParticle(index: number): IEmitterParticle {
+    const range = this.getRanges(0).find(({ start, end }) => index >= start && index < end);
+    return this.readParticle(index, range?.instance ?? null, range?.time ?? this.emitter.time);
+  }
+
+  /**
+   * Invoke a callback for each living particle.
+   *
+   * ```
+   * emitter.simulation.forEachParticle((particle) => {
+   *   if (particle.position[1] < -10)
+   *     console.log(`Particle ${particle.index} fell out of the world`);
+   * });
+   * ```
+   *
+   * @param {(particle: IEmitterParticle) => void} callback - The
+   *   callback.
+   * @returns {this}
+   */
+  public forEachParticle(callback: (particle: IEmitterParticle) => void): this {
+    for (const { instance, start, end, time } of this.getRanges(0)) {
+      for (let i = start; i < end; i++) {
+        const particle = this.readParticle(i, instance, time);
+        if (particle.alive)
+          callback(particle);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Find the living particles inside a volume in the emitter's local
+   * space.
+   *
+   * ```
+   * const hits = emitter.simulation.queryParticles(new THREE.Sphere(target, 1));
+   * ```
+   *
+   * @param {THREE.Box3 | THREE.Sphere} volume - The volume.
+   * @returns {IEmitterParticle[]}
+   */
+  public queryParticles(volume: THREE.Box3 | THREE.Sphere): IEmitterParticle[] {
+    const point = new THREE.Vector3();
+    const particles: IEmitterParticle[] = [];
+    this.forEachParticle((particle) => {
+      if (volume.containsPoint(point.fromArray(particle.position)))
+        particles.push(particle);
+    });
+    return particles;
+  }
+
+  /**
+   * Re-initialize all particles from the `origin` and `initialVelocity`
+   * attributes on the next update.
+   *
+   * @returns {this}
+   */
+  public reset(): this {
+    const state = this.getAttribute(this.state);
+    if (state) {
+      for (let i = 0; i < state.count; i++)
+        state.setY(i, 0);
+    }
+    return this;
+  }
+
+  /**
+   * Advance the simulation. Called by the Emitter on each update.
+   *
+   * @param {number} delta - The time passed on the Emitter in seconds.
+   * @returns {void}
+   */
+  public update(delta: number): void {
+    const position = this.getAttribute(this.position);
+    const velocity = this.getAttribute(this.velocity);
+    const state = this.getAttribute(this.state);
+    if (!position || !velocity || !state)
+      return;
+
+    const origin = this.getAttribute(this.origin);
+    const initialVelocity = this.getAttribute(this.initialVelocity);
+    const birthTime = this.getAttribute("birthTime");
+    const lifetime = this.getAttribute("lifetime");
+    const p = new THREE.Vector3();
+    const v = new THREE.Vector3();
+    const collisions: IEmitterCollision[] = [];
+
+    for (const range of this.getRanges(delta)) {
+      for (let i = range.start; i < range.end; i++) {
+        const birth = birthTime && lifetime ? birthTime.getX(i) : 0;
+        const life = birthTime && lifetime ? lifetime.getX(i) : Infinity;
+        if (life <= 0 || range.time < birth || range.time >= birth + life)
+          continue;
+
+        // Particles born since the last update start at their origin
+        let dt = range.delta;
+        if (state.getY(i) === 0 || state.getX(i) !== birth) {
+          p.set(0, 0, 0);
+          v.set(0, 0, 0);
+          if (origin)
+            p.fromBufferAttribute(origin, i);
+          if (initialVelocity)
+            v.fromBufferAttribute(initialVelocity, i);
+          state.setXY(i, birth, 1);
+          dt = Math.min(dt, range.time - birth);
+        }
+        else {
+          p.fromBufferAttribute(position, i);
+          v.fromBufferAttribute(velocity, i);
+        }
+
+        for (const plane of this.integrate(p, v, dt)) {
+          collisions.push({
+            particle: { index: i, instance: range.instance, position: p.toArray(), velocity: v.toArray(), age: range.time - birth, alive: true },
+            plane,
+          });
+        }
+        position.setXYZ(i, p.x, p.y, p.z);
+        velocity.setXYZ(i, v.x, v.y, v.z);
+      }
+
+      for (const attr of [this.position, this.velocity])
+        this.emitter.markAttributeDirty(attr, range.start * 3, (range.end - range.start) * 3);
+    }
+
+    for (const collision of collisions) {
+      for (const callback of this.collisionCallbacks)
+        callback(collision);
+    }
+  }
+
+  /**
+   * Serialize the options of the simulation. The forces are copied, so
+   * they aren't shared with emitters created from the result. Used
+   * internally by `Emitter.toJSON()` and `Emitter.copy()`.
+   *
+   * @returns {IEmitterSimulationOptions}
+   */
+  public toJSON(): IEmitterSimulationOptions {
+    return {
+      forces: this.forces.map(copyForce),
+      position: this.position,
+      velocity: this.velocity,
+      origin: this.origin,
+      initialVelocity: this.initialVelocity,
+    };
+  }
+
+  /**
+   * Apply the forces to a particle for a time step.
+   *
+   * @param {THREE.Vector3} p - The position, updated in place.
+   * @param {THREE.Vector3} v - The velocity, updated in place.
+   * @param {number} dt - The time step in seconds.
+   * @returns {IPlaneForce[]} The planes the particle collided with.
+   */
+  protected integrate(p: THREE.Vector3, v: THREE.Vector3, dt: number): IPlaneForce[] {
+    if (dt <= 0)
+      return [];
+
+    const acceleration = new THREE.Vector3();
+    const direction = new THREE.Vector3();
+    let drag = 0;
+    for (const force of this.forces) {
+      switch (force.type) {
+        case "gravity":
+          acceleration.add(direction.fromArray(force.value));
+          break;
+        case "drag":
+          drag += force.value;
+          break;
+        case "attractor": {
+          direction.fromArray(force.position).sub(p);
+          const distance = direction.length();
+          const radius = force.radius ?? Infinity;
+          if (distance > 0 && distance < radius)
+            acceleration.addScaledVector(direction.divideScalar(distance), force.strength * (radius === Infinity ? 1 : 1 - distance / radius));
+          break;
+        }
+        case "plane":
+          break;
+      }
+    }
+
+    // Semi-implicit Euler with exponential drag like the shader behaviors
+    v.addScaledVector(acceleration, dt).multiplyScalar(Math.exp(-drag * dt));
+    p.addScaledVector(v, dt);
+
+    const collisions: IPlaneForce[] = [];
+    for (const force of this.forces) {
+      if (force.type !== "plane")
+        continue;
+      const normal = direction.fromArray(force.normal).normalize();
+      const distance = normal.dot(p) + (force.constant ?? 0);
+      const speed = normal.dot(v);
+      if (distance >= 0 || speed > 0)
+        continue;
+
+      p.addScaledVector(normal, -distance);
+      const tangent = v.clone().addScaledVector(normal, -speed).multiplyScalar(1 - (force.friction ?? 0));
+      v.copy(tangent).addScaledVector(normal, -speed * (force.bounce ?? 0));
+      collisions.push(force);
+    }
+    return collisions;
+  }
+
+  /**
+   * Read the state of a particle.
+   *
+   * @param {number} index - The index of the particle slot.
+   * @param {EmitterInstance | null} instance - The owning EmitterInstance.
+   * @param {number} time - The local time of the particle's range.
+   * @returns {IEmitterParticle}
+   */
+  protected readParticle(index: number, instance: EmitterInstance | null, time: number): IEmitterParticle {
+    const position = this.getAttribute(this.position);
+    const velocity = this.getAttribute(this.velocity);
+    const state = this.getAttribute(this.state);
+    const birthTime = this.getAttribute("birthTime");
+    const lifetime = this.getAttribute("lifetime");
+    const birth = birthTime && lifetime ? birthTime.getX(index) : 0;
+    const life = birthTime && lifetime ? lifetime.getX(index) : Infinity;
+
+    return {
+      index,
+      instance,
+      position: position ? new THREE.Vector3().fromBufferAttribute(position, index).toArray() : [0, 0, 0],
+      velocity: velocity ? new THREE.Vector3().fromBufferAttribute(velocity, index).toArray() : [0, 0, 0],
+      age: time - birth,
+      alive: !!state && state.getY(index) === 1 && life > 0 && time >= birth && time < birth + life,
+    };
+  }
+
+  /**
+   * Get the ranges of particle slots in use with their local time.
+   *
+   * @param {number} delta - The time passed on the Emitter in seconds.
+   * @returns {ISimulationRange[]}
+   */
+  protected getRanges(delta: number): ISimulationRange[] {
+    const instances = [...this.emitter.knownInstances];
+    if (instances.length === 0) {
+      const end = Math.min(this.emitter.particleAmount, this.emitter.maxParticles);
+      return [{ instance: null, start: 0, end, time: this.emitter.time, delta }];
+    }
+    return instances.map((instance) => ({
+      instance,
+      start: instance.offset,
+      end: instance.offset + instance.particleAmount,
+      time: instance.time,
+      delta: delta * instance.playbackSpeed,
+    }));
+  }
+
+  /**
+   * Get a per particle attribute of the Emitter.
+   *
+   * @param {string} name - The name of the attribute.
+   * @returns {THREE.InstancedBufferAttribute | null}
+   */
+  protected getAttribute(name: string): THREE.InstancedBufferAttribute | null {
+    const attr = this.emitter.geometry.getAttribute(name) as THREE.BufferAttribute | THREE.InterleavedBufferAttribute | undefined;
+    return attr && this.emitter.isParticleAttribute(attr) ? attr : null;
+  }
+}
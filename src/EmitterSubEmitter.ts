@@ -0,0 +1,310 @@
+import * as THREE from "three";
+import EmitterError from "./EmitterError.js";
+import type Emitter from "./Emitter.js";
+import type EmitterEffect from "./EmitterEffect.js";
+import type EmitterInstance from "./EmitterInstance.js";
+import type { IEmitterEmissionOptions } from "./EmitterEmission.js";
+import type { Vec3 } from "./EmitterBehaviors.js";
+
+/**
+ * Options for a sub-emitter, see `Emitter.addSubEmitter()`.
+ */
+export interface ISubEmitterOptions {
+
+  /**
+   * The Emitter the children are spawned on. May be the parent Emitter
+   * itself if its particles live in EmitterInstances, but not if it
+   * emits on its own, its emission would overwrite the children.
+   */
+  emitter: Emitter;
+
+  /**
+   * The event triggering a child: `"death"` when a particle reaches the
+   * end of its lifetime, `"age"` when a particle reaches `age`.
+   * Default is `"death"`.
+   */
+  trigger?: "death" | "age";
+
+  /**
+   * The age in seconds triggering a child if `trigger` is `"age"`.
+   */
+  age?: number;
+
+  /**
+   * The amount of particles of each child.
+   */
+  amount: number;
+
+  /**
+   * The duration of each child in seconds, see `Emitter.spawn()`.
+   */
+  duration: number;
+
+  /**
+   * The emission model of the children. Defaults to the emission model
+   * of the child Emitter.
+   */
+  emission?: IEmitterEmissionOptions;
+
+  /**
+   * The attribute of the child receiving the triggering particle's
+   * position. Default is `"emitterPosition"`.
+   */
+  attribute?: string;
+
+  /**
+   * Attributes copied from the triggering particle to the child, e.g. a
+   * color.
+   */
+  inherit?: string[];
+
+  /**
+   * The attribute of the parent holding the particles' base positions.
+   * Ignored if the parent Emitter is simulated on the CPU, the simulated
+   * positions are used instead. Default is `"emitterPosition"`.
+   */
+  position?: string;
+
+  /**
+   * The attribute of the parent holding the particles' initial
+   * velocities, if it exists. Default is `"initialVelocity"`.
+   */
+  velocity?: string;
+
+  /**
+   * The constant acceleration of the parent's particles, e.g. the value
+   * of its `gravity` behavior. Default is `[0, 0, 0]`.
+   */
+  gravity?: Vec3;
+
+  /**
+   * The maximum amount of children alive at the same time. Triggers
+   * exceeding it are skipped. Default is `Infinity`.
+   */
+  maxChildren?: number;
+}
+
+/**
+ * Spawns child effects on an Emitter when particles of a parent Emitter
+ * or its EmitterInstances die or reach an age, e.g. for fireworks or
+ * impacts. The trigger positions are evaluated on the CPU from the
+ * parent's attributes and time, using the base position, initial
+ * velocity and a constant acceleration, or from the simulated state if
+ * the parent is simulated on the CPU. Children are created via
+ * `Emitter.spawn()` and released once their duration elapsed. Child
+ * Emitters may have sub-emitters themselves.
+ *
+ * ```
+ * const rockets = new Emitter({ maxParticles: 100, emission: { rate: 2, lifetime: 1.5 }, ... });
+ * const sparks = new Emitter({ maxParticles: 10000, emission: { rate: 0, lifetime: 1, bursts: [{ time: 0, amount: 100 }] }, ... });
+ *
+ * rockets.addSubEmitter({
+ *   emitter: sparks,
+ *   amount: 100,
+ *   duration: 1,
+ *   gravity: [0, -9.81, 0],
+ *   inherit: ["color"],
+ * });
+ * ```
+ */
+export default class EmitterSubEmitter {
+
+  /**
+   * The Emitter whose particles trigger children.
+   */
+  public parent: Emitter;
+
+  /**
+   * The options.
+   */
+  public options: ISubEmitterOptions;
+
+  /**
+   * The running children.
+   */
+  public children: Set<EmitterEffect> = new Set();
+
+  /**
+   * The particles which triggered during the current update, collected
+   * before the parent's emission re-uses their slots.
+   */
+  protected triggered: { index: number, age: number, birthTime: number, position: THREE.Vector3 }[] = [];
+
+  /**
+   * Create an EmitterSubEmitter. Use `Emitter.addSubEmitter()` instead.
+   *
+   * @param {Emitter} parent - The Emitter whose particles trigger
+   *   children.
+   * @param {ISubEmitterOptions} options - The options.
+   */
+  constructor(parent: Emitter, options: ISubEmitterOptions) {
+    this.parent = parent;
+    this.options = options;
+  }
+
+  /**
+   * Collect the particles triggering during the current update. Called
+   * by the parent Emitter after advancing its time, but before its
+   * emission writes new particles into the slots of dead ones.
+   *
+   * @param {number} delta - The time passed on the parent Emitter in
+   *   seconds.
+   * @returns {void}
+   */
+  public collect(delta: number): void {
+    const birthTime = this.getAttribute(this.parent, "birthTime");
+    const lifetime = this.getAttribute(this.parent, "lifetime");
+    if (!birthTime || !lifetime || delta <= 0)
+      return;
+
+    for (const { start, end, time, delta: dt } of this.getRanges(delta)) {
+      for (let i = start; i < end; i++) {
+        const life = lifetime.getX(i);
+        if (life <= 0)
+          continue;
+        const age = this.options.trigger === "age" ? this.options.age ?? 0 : life;
+        const trigger = birthTime.getX(i) + age;
+        if (age <= life && trigger > time - dt && trigger <= time)
+          this.triggered.push({ index: i, age, birthTime: birthTime.getX(i), position: this.getPosition(i, age) });
+      }
+    }
+  }
+
+  /**
+   * Spawn children for the particles collected by `collect()`. Called by
+   * the parent Emitter on each update, after its emission and
+   * simulation.
+   *
+   * @returns {void}
+   */
+  public update(): void {
+    const birthTime = this.getAttribute(this.parent, "birthTime");
+    const triggered = this.triggered;
+    this.triggered = [];
+
+    for (const { index, age, birthTime: birth, position } of triggered) {
+      if (this.children.size >= (this.options.maxChildren ?? Infinity))
+        break;
+      // Slots re-used by the emission since keep the collected position
+      const reused = birthTime?.getX(index) !== birth;
+      this.spawn(index, reused ? position : this.getPosition(index, age));
+    }
+  }
+
+  /**
+   * Cancel all running children.
+   *
+   * @returns {void}
+   */
+  public dispose(): void {
+    for (const child of [...this.children])
+      child.cancel();
+    this.children.clear();
+    this.triggered = [];
+  }
+
+  /**
+   * Spawn a child for a particle of the parent Emitter.
+   *
+   * @param {number} index - The index of the particle slot.
+   * @param {THREE.Vector3} position - The position of the particle when
+   *   it triggered, in the parent Emitter's local space.
+   * @returns {void}
+   */
+  protected spawn(index: number, position: THREE.Vector3): void {
+    const { emitter } = this.options;
+    const attribute = this.options.attribute ?? "emitterPosition";
+
+    // Children would take over the slots of the parent's own emission
+    if (emitter === this.parent && emitter.knownInstances.size === 0) {
+      emitter.report(new EmitterError("INVALID_SUB_EMITTER", "A sub-emitter can't spawn children on its parent Emitter while the parent emits on its own.", { emitter }));
+      return;
+    }
+
+    // Convert between the local spaces of the parent and the child Emitter
+    if (emitter !== this.parent) {
+      this.parent.updateWorldMatrix(true, false);
+      emitter.updateWorldMatrix(true, false);
+      position
+        .applyMatrix4(this.parent.matrixWorld)
+        .applyMatrix4(new THREE.Matrix4().copy(emitter.matrixWorld).invert());
+    }
+
+    const attributes: Record<string, number[]> = { [attribute]: position.toArray() };
+    for (const name of this.options.inherit ?? []) {
+      const source = this.getAttribute(this.parent, name);
+      if (source)
+        attributes[name] = Array.from(source.array.subarray(index * source.itemSize, (index + 1) * source.itemSize));
+    }
+    for (const [name, item] of Object.entries(attributes))
+      emitter.addParticleAttribute(name, item.length);
+
+    const child = emitter.spawn({
+      amount: this.options.amount,
+      duration: this.options.duration,
+      emission: this.options.emission,
+      attributes,
+    });
+    this.children.add(child);
+    // Released children dispose their instance, whether completed or cancelled
+    child.instance.addEventListener("disposed", () => this.children.delete(child));
+  }
+
+  /**
+   * Evaluate the position of a particle of the parent Emitter in its
+   * local space.
+   *
+   * @param {number} index - The index of the particle slot.
+   * @param {number} age - The age of the particle in seconds.
+   * @returns {THREE.Vector3}
+   */
+  protected getPosition(index: number, age: number): THREE.Vector3 {
+    const simulation = this.parent.simulation;
+    const simulated = simulation && this.getAttribute(this.parent, simulation.position);
+    if (simulated)
+      return new THREE.Vector3().fromBufferAttribute(simulated, index);
+
+    const position = new THREE.Vector3();
+    const base = this.getAttribute(this.parent, this.options.position ?? "emitterPosition");
+    const velocity = this.getAttribute(this.parent, this.options.velocity ?? "initialVelocity");
+    if (base)
+      position.fromBufferAttribute(base, index);
+    if (velocity)
+      position.addScaledVector(new THREE.Vector3().fromBufferAttribute(velocity, index), age);
+    if (this.options.gravity)
+      position.addScaledVector(new THREE.Vector3().fromArray(this.options.gravity), 0.5 * age * age);
+    return position;
+  }
+
+  /**
+   * Get the ranges of particle slots of the parent Emitter with their
+   * local time and time step.
+   *
+   * @param {number} delta - The time passed on the parent Emitter in
+   *   seconds.
+   * @returns {{ start: number, end: number, time: number, delta: number }[]}
+   */
+  protected getRanges(delta: number): { start: number, end: number, time: number, delta: number }[] {
+    const instances: EmitterInstance[] = [...this.parent.knownInstances];
+    if (instances.length === 0)
+      return [{ start: 0, end: Math.min(this.parent.particleAmount, this.parent.maxParticles), time: this.parent.time, delta }];
+    return instances.map((instance) => ({
+      start: instance.offset,
+      end: instance.offset + instance.particleAmount,
+      time: instance.time,
+      delta: delta * instance.playbackSpeed,
+    }));
+  }
+
+  /**
+   * Get a per particle attribute of an Emitter.
+   *
+   * @param {Emitter} emitter - The Emitter.
+   * @param {string} name - The name of the attribute.
+   * @returns {THREE.InstancedBufferAttribute | null}
+   */
+  protected getAttribute(emitter: Emitter, name: string): THREE.InstancedBufferAttribute | null {
+    const attr = emitter.geometry.getAttribute(name) as THREE.BufferAttribute | THREE.InterleavedBufferAttribute | undefined;
+    return attr && emitter.isParticleAttribute(attr) ? attr : null;
+  }
+}
@@ -0,0 +1,77 @@
+import { type IEmitterClock } from "./EmitterClock.js";
+
+/**
+ * A clock that only advances when told to.
+ * Useful for deterministic tests, offline rendering (e.g. video frames)
+ * or driving emitters from an existing game loop.
+ *
+ * ```
+ * const clock = new ManualEmitterClock();
+ * const emitter = new Emitter({
+ *   maxParticles: 1000,
+ *   clock,
+ *   manager: new EmitterManager({ clock })
+ * });
+ *
+ * // Render 60 frames per second of simulated time
+ * for (let frame = 0; frame < 600; frame++) {
+ *   clock.tick(1000 / 60);
+ *   renderer.render(scene, camera);
+ * }
+ * ```
+ */
+export default class ManualEmitterClock implements IEmitterClock {
+
+  /**
+   * The current time in milliseconds.
+   */
+  public time: number;
+
+  /**
+   * Callbacks scheduled for the next tick.
+   */
+  protected callbacks: (() => void)[] = [];
+
+  /**
+   * Create a ManualEmitterClock.
+   *
+   * @param {number} time - The initial time in milliseconds.
+   */
+  constructor(time: number = 0) {
+    this.time = time;
+  }
+
+  /**
+   * Get the current time in milliseconds.
+   *
+   * @returns {number}
+   */
+  public now(): number {
+    return this.time;
+  }
+
+  /**
+   * Schedule a callback for the next tick.
+   *
+   * @param {() => void} callback - The callback.
+   * @returns {void}
+   */
+  public requestFrame(callback: () => void): void {
+    this.callbacks.push(callback);
+  }
+
+  /**
+   * Advance the time and run all callbacks scheduled for this tick.
+   *
+   * @param {number} delta - The time to advance in milliseconds.
+   * @returns {this}
+   */
+  public tick(delta: number): this {
+    this.time += delta;
+    const callbacks = this.callbacks;
+    this.callbacks = [];
+    for (const callback of callbacks)
+      callback();
+    return this;
+  }
+}
@@ -1,3 +1,187 @@
-import Emitter, { type IEmitterOptions } from "./Emitter.js";
-import EmitterInstance from "./EmitterInstance.js";
-export { Emitter, EmitterInstance, IEmitterOptions };
+import Emitter, { type IEmitterOptions, type IEmitterBoundsOptions, type IEmitterSortOptions, type IEmitterFlipbookOptions, type IEmitterEventMap, type IEmitterObjectJSON } from "./Emitter.js";
+import EmitterInstance, { type IEmitterAttachOptions, type IEmitterInstanceEventMap } from "./EmitterInstance.js";
+import EmitterAllocator, { type IEmitterRange } from "./EmitterAllocator.js";
+import {
+  createEmitterAttribute,
+  type IEmitterAttributes,
+  type IEmitterUniforms,
+  type IEmitterAttribute,
+  type IEmitterBuiltinAttributes,
+  type IEmitterBuiltinUniforms,
+  type IEmitterAttributeName,
+  type IEmitterKnownAttributeName,
+  type IEmitterAttributeItem,
+  type IEmitterAttributeValue,
+  type IEmitterAttributeValueOf,
+  type IEmitterInstanceUniformValue,
+} from "./EmitterAttributes.js";
+import {
+  compileEmitterBehaviors,
+  type IEmitterBehavior,
+  type IEmitterProgram,
+  type IPositionBehavior,
+  type IVelocityBehavior,
+  type IGravityBehavior,
+  type IDragBehavior,
+  type IOrbitBehavior,
+  type INoiseBehavior,
+  type ISizeOverLifeBehavior,
+  type IColorOverLifeBehavior,
+  type IColorCurveBehavior,
+  type IAlphaCurveBehavior,
+  type ISizeCurveBehavior,
+  type IBillboardBehavior,
+  type ICustomBehavior,
+  type Vec3,
+  type Vec4,
+} from "./EmitterBehaviors.js";
+import EmitterClock, { type IEmitterClock } from "./EmitterClock.js";
+import {
+  bakeEmitterCurves,
+  evaluateEmitterCurve,
+  emitterCurveDefine,
+  type IEmitterCurve,
+  type IEmitterCurveAtlas,
+} from "./EmitterCurves.js";
+import EmitterError, { type IEmitterErrorCode, type IEmitterErrorContext, type IEmitterLogger } from "./EmitterError.js";
+import EmitterEffect, { type IEmitterEffectOptions } from "./EmitterEffect.js";
+import EmitterEmission, {
+  type IEmitterEmissionOptions,
+  type IEmitterEmissionJSON,
+  type IEmitterBurst,
+} from "./EmitterEmission.js";
+import EmitterManager, { type IEmitterManagerOptions } from "./EmitterManager.js";
+import EmitterMeshSampler, { type IEmitterMeshSample, type IEmitterMeshFillOptions } from "./EmitterMeshSampler.js";
+import EmitterObjectLoader, {
+  EMITTER_JSON_VERSION,
+  type IEmitterJSON,
+  type IEmitterInstanceJSON,
+} from "./EmitterObjectLoader.js";
+import EmitterRandom from "./EmitterRandom.js";
+import {
+  pointSampler,
+  boxSampler,
+  sphereSampler,
+  discSampler,
+  coneSampler,
+  lineSampler,
+  torusSampler,
+  type IEmitterSampler,
+  type IBoxSamplerOptions,
+  type ISphereSamplerOptions,
+  type IDiscSamplerOptions,
+  type IConeSamplerOptions,
+  type ILineSamplerOptions,
+  type ITorusSamplerOptions,
+} from "./EmitterSamplers.js";
+import EmitterShaderChunks from "./EmitterShaderChunks.js";
+import EmitterSubEmitter, { type ISubEmitterOptions } from "./EmitterSubEmitter.js";
+import EmitterSimulation, {
+  type IEmitterSimulationOptions,
+  type IEmitterForce,
+  type IGravityForce,
+  type IDragForce,
+  type IAttractorForce,
+  type IPlaneForce,
+  type IEmitterParticle,
+  type IEmitterCollision,
+} from "./EmitterSimulation.js";
+import ManualEmitterClock from "./ManualEmitterClock.js";
+export {
+  Emitter,
+  EmitterInstance,
+  EmitterAllocator,
+  EmitterClock,
+  EmitterEffect,
+  EmitterEmission,
+  EmitterError,
+  EmitterManager,
+  EmitterMeshSampler,
+  EmitterObjectLoader,
+  EmitterRandom,
+  EmitterShaderChunks,
+  EmitterSimulation,
+  EmitterSubEmitter,
+  ManualEmitterClock,
+  compileEmitterBehaviors,
+  createEmitterAttribute,
+  bakeEmitterCurves,
+  evaluateEmitterCurve,
+  emitterCurveDefine,
+  pointSampler,
+  boxSampler,
+  sphereSampler,
+  discSampler,
+  coneSampler,
+  lineSampler,
+  torusSampler,
+  EMITTER_JSON_VERSION,
+  IEmitterOptions,
+  IEmitterBoundsOptions,
+  IEmitterSortOptions,
+  IEmitterFlipbookOptions,
+  IEmitterEventMap,
+  IEmitterObjectJSON,
+  IEmitterJSON,
+  IEmitterInstanceJSON,
+  IEmitterAttachOptions,
+  IEmitterInstanceEventMap,
+  IEmitterRange,
+  IEmitterAttributes,
+  IEmitterUniforms,
+  IEmitterAttribute,
+  IEmitterBuiltinAttributes,
+  IEmitterBuiltinUniforms,
+  IEmitterAttributeName,
+  IEmitterKnownAttributeName,
+  IEmitterAttributeItem,
+  IEmitterAttributeValue,
+  IEmitterAttributeValueOf,
+  IEmitterInstanceUniformValue,
+  IEmitterClock,
+  IEmitterEffectOptions,
+  IEmitterErrorCode,
+  IEmitterErrorContext,
+  IEmitterLogger,
+  IEmitterEmissionOptions,
+  IEmitterEmissionJSON,
+  IEmitterBurst,
+  IEmitterManagerOptions,
+  IEmitterBehavior,
+  IEmitterProgram,
+  IPositionBehavior,
+  IVelocityBehavior,
+  IGravityBehavior,
+  IDragBehavior,
+  IOrbitBehavior,
+  INoiseBehavior,
+  ISizeOverLifeBehavior,
+  IColorOverLifeBehavior,
+  IColorCurveBehavior,
+  IAlphaCurveBehavior,
+  ISizeCurveBehavior,
+  IBillboardBehavior,
+  ICustomBehavior,
+  IEmitterCurve,
+  IEmitterCurveAtlas,
+  IEmitterSampler,
+  IEmitterMeshSample,
+  IEmitterMeshFillOptions,
+  IBoxSamplerOptions,
+  ISphereSamplerOptions,
+  IDiscSamplerOptions,
+  IConeSamplerOptions,
+  ILineSamplerOptions,
+  ITorusSamplerOptions,
+  IEmitterSimulationOptions,
+  IEmitterForce,
+  IGravityForce,
+  IDragForce,
+  IAttractorForce,
+  IPlaneForce,
+  IEmitterParticle,
+  IEmitterCollision,
+  ISubEmitterOptions,
+  Vec3,
+  Vec4
+};